@@ -0,0 +1,99 @@
+import { createHash } from 'node:crypto'
+import { existsSync } from 'node:fs'
+import { readdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import type { Plugin, ResolvedConfig, Rollup } from 'vite'
+
+/**
+ * A file the service worker caches on install. `revision` is null when the
+ * file name already changes with its content.
+ */
+interface PrecacheEntry {
+  url: string
+  revision: string | null
+}
+
+const MANIFEST_PLACEHOLDER = 'self.__PRECACHE_MANIFEST'
+const OUTPUT_FILE_NAME = 'service-worker.js'
+const INDEX_FILE_NAME = 'index.html'
+
+function getRevision(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16)
+}
+
+async function listFiles(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true })
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(directory, entry.name)
+      return entry.isDirectory() ? listFiles(fullPath) : Promise.resolve([fullPath])
+    }),
+  )
+
+  return files.flat()
+}
+
+function toRelativeUrl(directory: string, file: string): string {
+  return `./${path.relative(directory, file).split(path.sep).join('/')}`
+}
+
+/**
+ * Lists the hashed chunks and assets of the bundle. Their names change with
+ * their content, so they need no revision. index.html keeps its name and is
+ * revisioned with the public files.
+ */
+function getBundleEntries(bundle: Rollup.OutputBundle): PrecacheEntry[] {
+  return Object.keys(bundle)
+    .filter((fileName) => fileName !== INDEX_FILE_NAME && !fileName.endsWith('.map'))
+    .map((fileName) => ({ url: `./${fileName}`, revision: null }))
+}
+
+async function getRevisionedEntries(directory: string, files: readonly string[]): Promise<PrecacheEntry[]> {
+  return Promise.all(
+    files.map(async (file) => ({ url: toRelativeUrl(directory, file), revision: getRevision(await readFile(file)) })),
+  )
+}
+
+/**
+ * Writes `service-worker.js` to the build output from the template at
+ * `source`, filling in the list of files to precache. The list is taken from
+ * the bundle, index.html and the public directory, so a new build always
+ * precaches exactly what it shipped.
+ */
+export function serviceWorker(source: string): Plugin {
+  let config: ResolvedConfig
+
+  return {
+    name: 'portuguese-reorder:service-worker',
+    apply: 'build',
+    configResolved(resolvedConfig) {
+      config = resolvedConfig
+    },
+    async writeBundle(_options, bundle) {
+      const outDir = path.resolve(config.root, config.build.outDir)
+
+      const publicFiles =
+        config.publicDir && existsSync(config.publicDir)
+          ? (await listFiles(config.publicDir)).map((file) => path.join(outDir, path.relative(config.publicDir, file)))
+          : []
+      const entries = [
+        ...getBundleEntries(bundle),
+        ...(await getRevisionedEntries(outDir, [path.join(outDir, INDEX_FILE_NAME), ...publicFiles])),
+      ]
+
+      const unique = new Map(entries.map((entry) => [entry.url, entry]))
+      const precacheManifest = Array.from(unique.values()).sort((a, b) => a.url.localeCompare(b.url))
+
+      const template = await readFile(path.resolve(config.root, source), 'utf8')
+      if (!template.includes(MANIFEST_PLACEHOLDER)) {
+        throw new Error(`The service worker template ${source} does not contain ${MANIFEST_PLACEHOLDER}.`)
+      }
+
+      await writeFile(
+        path.join(outDir, OUTPUT_FILE_NAME),
+        template.replace(MANIFEST_PLACEHOLDER, JSON.stringify(precacheManifest, null, 2)),
+      )
+      config.logger.info(`Service worker precaches ${precacheManifest.length} files.`)
+    },
+  }
+}
@@ -1,229 +1,569 @@
-import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import BackupPanel from './components/BackupPanel'
+import ChallengeView from './components/ChallengeView'
+import ImportPanel from './components/ImportPanel'
+import LiveRegion from './components/LiveRegion'
+import PackPicker from './components/PackPicker'
+import ProblemEditor from './components/ProblemEditor'
+import StatsView from './components/StatsView'
+import TagFilter from './components/TagFilter'
+import TapBoard from './components/TapBoard'
 import TokenList from './components/TokenList'
-import { createProblemSetHash, fetchProblems } from './data/problems'
+import { createCustomPack, fetchPacks, resolvePackUrl } from './data/packs'
+import { createProblemSetHash, fetchProblems, getProblemId, type ProblemSource } from './data/problems'
+import {
+  CUSTOM_PACKS_STORAGE_KEY,
+  getPackStorageKey,
+  HISTORY_STORAGE_KEY,
+  INPUT_MODE_STORAGE_KEY,
+  LEGACY_PACK_ID,
+  LISTENING_STORAGE_KEY,
+  PACK_HASHES_STORAGE_KEY,
+  PACK_STORAGE_KEY,
+  REVIEWS_STORAGE_KEY,
+  readLegacySession,
+  removeLegacySessions,
+  SESSION_STORAGE_KEY,
+} from './data/storage'
+import { useAnnouncement } from './hooks/useAnnouncement'
+import { useHashRoute } from './hooks/useHashRoute'
 import { usePersistentState } from './hooks/usePersistentState'
-import type { ColorScheme, Problem, TokenFragment } from './types'
-import { createFragmentId, evaluateFragments } from './utils/evaluate'
-import { shuffle } from './utils/shuffle'
+import { useRevalidation } from './hooks/useRevalidation'
+import { useServiceWorker } from './hooks/useServiceWorker'
+import { useTheme } from './hooks/useTheme'
+import { useI18n } from './i18n/I18nProvider'
+import { LOCALE_NAMES, LOCALES } from './i18n/messages'
+import { describeError, isLocale, type PlainMessageKey, type Translate } from './i18n/translate'
+import { useSpeech, type SpeechStatus } from './hooks/useSpeech'
+import type {
+  CustomProblemPack,
+  InputMode,
+  PackSummary,
+  Problem,
+  ProblemPack,
+  ProblemSet,
+  ThemePreference,
+  TokenFragment,
+} from './types'
+import {
+  formatAge,
+  mergeHistory,
+  recordAttempt,
+  recordHint,
+  recordSkip,
+  recordSolveTime,
+  type HistoryStore,
+} from './utils/analytics'
+import {
+  evaluateFragments,
+  findHintTarget,
+  getAcceptedOrders,
+  getFragmentText,
+  placeHintToken,
+} from './utils/evaluate'
+import { DEFAULT_DIFFICULTY, type Difficulty } from './utils/difficulty'
+import { getHintPenalty, getNextHint, type HintKind } from './utils/hints'
+import {
+  getDaysUntilDue,
+  gradeFromAttempts,
+  mergeReviews,
+  reviewProblem,
+  type ReviewStore,
+} from './utils/scheduler'
+import {
+  canRedo,
+  canUndo,
+  commitFragments,
+  createRandomizedSession,
+  createSessionSeed,
+  discardFragment,
+  getBoardTokens,
+  getPlacedLength,
+  mergeSessions,
+  migrateLegacySession,
+  reconcileSession,
+  redoFragments,
+  restoreFragment,
+  undoFragments,
+  updateProgress,
+  type ProblemProgress,
+  type SessionState,
+} from './utils/session'
+import { THEME_PREFERENCES, isThemePreference } from './utils/theme'
+
+type PacksState =
+  | { status: 'loading' }
+  | { status: 'error'; error: unknown }
+  | { status: 'success'; packs: ProblemPack[] }
 
 type ProblemsState =
+  | { status: 'idle' }
   | { status: 'loading' }
-  | { status: 'error'; message: string }
-  | { status: 'success'; problems: Problem[]; hash: string }
+  | { status: 'error'; error: unknown }
+  | {
+      status: 'success'
+      packId: string
+      problems: Problem[]
+      hash: string
+      /**
+       * Null for imported packs, which live on this device.
+       */
+      source: ProblemSource | null
+      fetchedAt: number | null
+    }
+
+/**
+ * A newer version of the loaded pack, held back until the learner chooses to
+ * switch: changed problems lose their progress.
+ */
+type ProblemsUpdate = {
+  packId: string
+  problems: Problem[]
+  hash: string
+  fetchedAt: number | null
+  dismissed: boolean
+}
+
+type AppView = 'packs' | 'practice' | 'challenge' | 'stats' | 'editor'
+
+const REVALIDATE_INTERVAL_MS = 30 * 60 * 1000
 
 type StatusMessage = {
   title: string
   detail?: string
 }
 
-interface ProblemProgress {
-  fragments: TokenFragment[]
-  solved: boolean
+const VIEW_TABS: ReadonlyArray<{ view: AppView; label: PlainMessageKey }> = [
+  { view: 'packs', label: 'views.packs' },
+  { view: 'practice', label: 'views.practice' },
+  { view: 'challenge', label: 'views.challenge' },
+  { view: 'stats', label: 'views.stats' },
+  { view: 'editor', label: 'views.editor' },
+]
+const VIEWS = VIEW_TABS.map((tab) => tab.view)
+
+const INPUT_MODES: ReadonlyArray<{ mode: InputMode; label: PlainMessageKey }> = [
+  { mode: 'drag', label: 'inputMode.drag' },
+  { mode: 'tap', label: 'inputMode.tap' },
+]
+
+const DIFFICULTIES: ReadonlyArray<{ difficulty: Difficulty; label: PlainMessageKey }> = [
+  { difficulty: 'easy', label: 'difficulty.easy' },
+  { difficulty: 'normal', label: 'difficulty.normal' },
+  { difficulty: 'hard', label: 'difficulty.hard' },
+]
+
+const THEME_LABELS: Record<ThemePreference, PlainMessageKey> = {
+  system: 'theme.system',
+  light: 'theme.light',
+  dark: 'theme.dark',
+  'high-contrast': 'theme.highContrast',
 }
 
-interface SessionState {
-  current: number | null
-  queue: number[]
-  progress: ProblemProgress[]
+const HINT_LABELS: Record<HintKind, PlainMessageKey> = {
+  note: 'hint.note',
+  highlight: 'hint.highlight',
+  place: 'hint.place',
 }
 
-function getPreferredColorScheme(): ColorScheme {
+/**
+ * Touch-first devices default to tap-to-place, where dragging is fiddly.
+ */
+function getDefaultInputMode(): InputMode {
   if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
-    return 'light'
+    return 'drag'
   }
 
-  return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light'
+  return window.matchMedia('(pointer: coarse)').matches ? 'tap' : 'drag'
 }
 
-function usePreferredColorScheme(): ColorScheme {
-  const [scheme, setScheme] = useState<ColorScheme>(() => getPreferredColorScheme())
-
-  useEffect(() => {
-    if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
-      return
-    }
-
-    const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)')
-    const handleChange = (event: MediaQueryListEvent | MediaQueryList) => {
-      setScheme(event.matches ? 'dark' : 'light')
-    }
-
-    setScheme(mediaQuery.matches ? 'dark' : 'light')
-
-    if (typeof mediaQuery.addEventListener === 'function') {
-      mediaQuery.addEventListener('change', handleChange)
-
-      return () => mediaQuery.removeEventListener('change', handleChange)
-    }
-
-    mediaQuery.addListener(handleChange)
-    return () => mediaQuery.removeListener(handleChange)
-  }, [])
-
-  return scheme
-}
-
-function createInitialFragments(problem: Problem, seed: string): TokenFragment[] {
-  const baseFragments: TokenFragment[] = problem.tokens.map((_, index) => ({
-    id: createFragmentId([index]),
-    indices: [index],
-    locked: false,
-  }))
-
-  return shuffle(baseFragments, seed).map((fragment) => ({
-    id: fragment.id,
-    indices: [...fragment.indices],
-    locked: false,
-  }))
+function isAbortError(error: unknown, signal: AbortSignal): boolean {
+  return signal.aborted || (error instanceof Error && error.name === 'AbortError')
 }
 
-function createSession(problems: Problem[], seed: string): SessionState {
-  if (problems.length === 0) {
-    return { current: null, queue: [], progress: [] }
+function getSpeechMessage(status: SpeechStatus, t: Translate): string | null {
+  if (status === 'unsupported') {
+    return t('speech.unsupported')
   }
 
-  const order = problems.map((_, index) => index)
-  const [current, ...queue] = order
-
-  const progress = problems.map((problem, index) => ({
-    fragments: createInitialFragments(problem, `${seed}-${index}`),
-    solved: false,
-  }))
+  if (status === 'missing-voice') {
+    return t('speech.missingVoice')
+  }
 
-  return { current, queue, progress }
+  return null
 }
 
-function createSessionSeed(): string {
-  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+function formatDataSource(
+  source: ProblemSource,
+  fetchedAt: number | null,
+  now: number,
+  locale: string,
+  t: Translate,
+): string {
+  const age = fetchedAt !== null ? formatAge(Math.max(0, now - fetchedAt), locale) : null
+
+  if (source === 'network') {
+    return age ? t('dataSource.network', { age }) : t('dataSource.networkUnknown')
+  }
+
+  return age ? t('dataSource.cache', { age }) : t('dataSource.cacheUnknown')
 }
 
-function createRandomizedSession(problems: Problem[]): SessionState {
-  return createSession(problems, createSessionSeed())
+function formatNextReview(days: number, t: Translate): string {
+  return days === 0 ? t('review.today') : t('review.inDays', { count: days })
 }
 
 function App() {
-  const scheme = usePreferredColorScheme()
-
-  useEffect(() => {
-    if (typeof document === 'undefined') {
-      return
-    }
-
-    document.documentElement.setAttribute('data-theme', scheme)
-  }, [scheme])
-
-  const [state, setState] = useState<ProblemsState>({ status: 'loading' })
+  const { locale, setLocale, t } = useI18n()
+  const [themePreference, setThemePreference] = useTheme()
+
+  const [inputMode, setInputMode] = usePersistentState<InputMode>(INPUT_MODE_STORAGE_KEY, getDefaultInputMode)
+  const [listeningMode, setListeningMode] = usePersistentState<boolean>(LISTENING_STORAGE_KEY, () => false)
+  const speech = useSpeech()
+  const { updateAvailable, applyUpdate } = useServiceWorker()
+  const [solveAnnouncement, announceSolve] = useAnnouncement()
+  const [packsState, setPacksState] = useState<PacksState>({ status: 'loading' })
+  const packs = packsState.status === 'success' ? packsState.packs : null
+  const [selectedPackId, setSelectedPackId] = usePersistentState<string | null>(PACK_STORAGE_KEY, () => null)
+  const [customPacks, setCustomPacks] = usePersistentState<CustomProblemPack[]>(CUSTOM_PACKS_STORAGE_KEY, () => [])
+  const [packHashes, setPackHashes] = usePersistentState<Record<string, string>>(PACK_HASHES_STORAGE_KEY, () => ({}))
+  const selectedPack = packs?.find((pack) => pack.id === selectedPackId) ?? null
+  const selectedCustomPack = customPacks.find((pack) => pack.id === selectedPackId) ?? null
+
+  const [state, setState] = useState<ProblemsState>({ status: 'idle' })
+  const [problemsUpdate, setProblemsUpdate] = useState<ProblemsUpdate | null>(null)
   const problems = state.status === 'success' ? state.problems : null
-  const problemHash = state.status === 'success' ? state.hash : null
+  const loadedPackId = state.status === 'success' ? state.packId : null
+
+  const getDefaultView = useCallback((): AppView => (selectedPackId ? 'practice' : 'packs'), [selectedPackId])
+  const [view, setView] = useHashRoute<AppView>(VIEWS, getDefaultView)
+  const [reviews, setReviews] = usePersistentState<ReviewStore>(
+    loadedPackId ? getPackStorageKey(REVIEWS_STORAGE_KEY, loadedPackId) : null,
+    () => ({}),
+    { merge: mergeReviews },
+  )
+  const [history, setHistory] = usePersistentState<HistoryStore>(
+    loadedPackId ? getPackStorageKey(HISTORY_STORAGE_KEY, loadedPackId) : null,
+    () => ({}),
+    { merge: mergeHistory },
+  )
 
   const sessionInitializer = useCallback((): SessionState | null => {
     if (!problems) {
       return null
     }
 
-    return createRandomizedSession(problems)
-  }, [problems])
+    const legacy = loadedPackId === LEGACY_PACK_ID ? readLegacySession(window.localStorage) : null
+    return legacy
+      ? migrateLegacySession(legacy, problems, createSessionSeed(), reviews, Date.now())
+      : createRandomizedSession(problems, reviews)
+  }, [loadedPackId, problems, reviews])
 
   const [session, setSession] = usePersistentState<SessionState | null>(
-    problemHash ? `portuguese-reorder-session:${problemHash}` : null,
+    loadedPackId ? getPackStorageKey(SESSION_STORAGE_KEY, loadedPackId) : null,
     sessionInitializer,
+    { merge: mergeSessions },
+  )
+
+  useEffect(() => {
+    if (!problems) {
+      return
+    }
+
+    setSession((previous) => (previous ? reconcileSession(previous, problems) : previous))
+  }, [problems, setSession])
+
+  // Once the introductions pack has a session of its own, the legacy session
+  // it was migrated from is no longer needed.
+  const hasLegacyPackSession = loadedPackId === LEGACY_PACK_ID && session !== null
+  useEffect(() => {
+    if (hasLegacyPackSession) {
+      removeLegacySessions(window.localStorage)
+    }
+  }, [hasLegacyPackSession])
+
+  const problemsById = useMemo(
+    () => new Map((problems ?? []).map((problem) => [getProblemId(problem), problem])),
+    [problems],
   )
 
   useEffect(() => {
     const abortController = new AbortController()
 
-    fetchProblems({ signal: abortController.signal })
-      .then((problems) => {
-        const hash = createProblemSetHash(problems)
-        setState({ status: 'success', problems, hash })
+    fetchPacks({ signal: abortController.signal })
+      .then((packs) => {
+        setPacksState({ status: 'success', packs })
       })
       .catch((error) => {
-        if (abortController.signal.aborted) {
+        if (isAbortError(error, abortController.signal)) {
           return
         }
 
-        if (error instanceof Error && error.name === 'AbortError') {
+        setPacksState({ status: 'error', error })
+      })
+
+    return () => {
+      abortController.abort()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (selectedCustomPack) {
+      const { id, problems } = selectedCustomPack
+      setState({
+        status: 'success',
+        packId: id,
+        problems,
+        hash: createProblemSetHash(problems),
+        source: null,
+        fetchedAt: null,
+      })
+      return
+    }
+
+    if (!selectedPack) {
+      setState({ status: 'idle' })
+      return
+    }
+
+    const abortController = new AbortController()
+    const packId = selectedPack.id
+    setState({ status: 'loading' })
+
+    fetchProblems({ url: resolvePackUrl(selectedPack), signal: abortController.signal })
+      .then(({ problems, source, fetchedAt }) => {
+        const hash = createProblemSetHash(problems)
+        setState({ status: 'success', packId, problems, hash, source, fetchedAt })
+      })
+      .catch((error) => {
+        if (isAbortError(error, abortController.signal)) {
           return
         }
 
-        const message = error instanceof Error ? error.message : 'Unknown error'
-        setState({ status: 'error', message })
+        setState({ status: 'error', error })
       })
 
     return () => {
       abortController.abort()
     }
-  }, [])
+  }, [selectedCustomPack, selectedPack])
+
+  const revalidatePack = selectedCustomPack ? null : selectedPack
+  const loadedHash = state.status === 'success' ? state.hash : null
+
+  // Checks whether the pack in use has changed. An unchanged pack only
+  // refreshes its age; a changed one is offered, not swapped in.
+  const revalidateProblems = useCallback(() => {
+    if (!revalidatePack || loadedPackId !== revalidatePack.id) {
+      return
+    }
+
+    const packId = revalidatePack.id
+    fetchProblems({ url: resolvePackUrl(revalidatePack) })
+      .then(({ problems, source, fetchedAt }) => {
+        if (source !== 'network') {
+          return
+        }
+
+        const hash = createProblemSetHash(problems)
+        if (hash === loadedHash) {
+          setState((previous) =>
+            previous.status === 'success' && previous.packId === packId && previous.hash === hash
+              ? { ...previous, source, fetchedAt }
+              : previous,
+          )
+          setProblemsUpdate(null)
+          return
+        }
+
+        setProblemsUpdate((previous) =>
+          previous?.packId === packId && previous.hash === hash
+            ? previous
+            : { packId, problems, hash, fetchedAt, dismissed: false },
+        )
+      })
+      .catch((error) => {
+        console.warn('Unable to check for new problems.', error)
+      })
+  }, [loadedHash, loadedPackId, revalidatePack])
+
+  useRevalidation(revalidateProblems, REVALIDATE_INTERVAL_MS, Boolean(revalidatePack && loadedPackId))
+
+  const handleLoadProblemsUpdate = () => {
+    if (!problemsUpdate || problemsUpdate.packId !== loadedPackId) {
+      return
+    }
+
+    const { packId, problems, hash, fetchedAt } = problemsUpdate
+    setState({ status: 'success', packId, problems, hash, source: 'network', fetchedAt })
+    setProblemsUpdate(null)
+  }
+
+  const handleDismissProblemsUpdate = () => {
+    setProblemsUpdate((previous) => (previous ? { ...previous, dismissed: true } : previous))
+  }
+
+  const offerProblemsUpdate = Boolean(
+    problemsUpdate && !problemsUpdate.dismissed && problemsUpdate.packId === loadedPackId,
+  )
+
+  // Backups record which problem set each pack's progress belongs to.
+  useEffect(() => {
+    if (state.status !== 'success') {
+      return
+    }
+
+    const { packId, hash } = state
+    setPackHashes((previous) => (previous[packId] === hash ? previous : { ...previous, [packId]: hash }))
+  }, [setPackHashes, state])
 
   const totalProblems = problems?.length ?? 0
 
   const statusMessage: StatusMessage | null = useMemo(() => {
+    if (!selectedCustomPack && packsState.status === 'loading') {
+      return {
+        title: t('status.loadingPacks'),
+        detail: t('status.loadingPacksDetail'),
+      }
+    }
+
+    if (!selectedCustomPack && packsState.status === 'error') {
+      return {
+        title: t('status.packsError'),
+        detail: describeError(packsState.error, t),
+      }
+    }
+
+    if (state.status === 'idle') {
+      return {
+        title: t('status.choosePack'),
+        detail: t('status.choosePackDetail'),
+      }
+    }
+
     if (state.status === 'loading') {
       return {
-        title: 'Loading practice problems…',
-        detail: 'Fetching European Portuguese introductions from the local dataset.',
+        title: t('status.loadingProblems'),
+        detail: selectedPack ? t('status.loadingProblemsDetail', { pack: selectedPack.title }) : undefined,
       }
     }
 
     if (state.status === 'error') {
       return {
-        title: 'Unable to load problems',
-        detail: state.message,
+        title: t('status.problemsError'),
+        detail: describeError(state.error, t),
       }
     }
 
     if (state.status === 'success' && totalProblems === 0) {
       return {
-        title: 'No practice prompts available',
-        detail: 'Add entries to problems.json to begin creating reorder challenges.',
+        title: t('status.empty'),
+        detail: t('status.emptyDetail'),
       }
     }
 
     return null
-  }, [state, totalProblems])
+  }, [packsState, selectedCustomPack, selectedPack, state, t, totalProblems])
 
-  const currentIndex = session?.current ?? null
-  const currentProblem = problems && currentIndex != null ? problems[currentIndex] : null
-  const currentProgress = currentIndex != null && session ? session.progress[currentIndex] : null
+  const currentId = session?.current ?? null
+  const currentProblem = currentId != null ? problemsById.get(currentId) ?? null : null
+  const currentProgress = currentId != null && session ? session.progress[currentId] ?? null : null
 
-  const solvedCount = session ? session.progress.filter((entry) => entry.solved).length : 0
+  const activeTags = session?.tags ?? []
+  const difficulty = session?.difficulty ?? DEFAULT_DIFFICULTY
+  const boardTokens = useMemo(
+    () => (currentProblem && currentProgress ? getBoardTokens(currentProblem, currentProgress) : []),
+    [currentProblem, currentProgress],
+  )
+  const scheduledCount = session?.scheduled.length ?? 0
+  const solvedCount = session ? session.scheduled.filter((id) => session.progress[id]?.solved).length : 0
   const remainingQueue = session?.queue.length ?? 0
-  const allSolved = totalProblems > 0 && solvedCount === totalProblems
+  const allSolved = scheduledCount > 0 && solvedCount === scheduledCount
+  const currentReview = currentId != null ? reviews[currentId] : undefined
+  const currentOrders = useMemo(() => (currentProblem ? getAcceptedOrders(currentProblem) : null), [currentProblem])
+  const canSpeak = speech.status === 'ready'
+  const speechMessage = getSpeechMessage(speech.status, t)
+
+  const currentSentence = useMemo(() => {
+    if (!currentProblem || !currentProgress) {
+      return ''
+    }
+
+    // Once solved, read back the order the learner built, which may be an accepted alternative.
+    return currentProgress.solved
+      ? currentProgress.fragments.map((fragment) => getFragmentText(fragment, currentProblem.tokens)).join(' ')
+      : currentProblem.tokens.join(' ')
+  }, [currentProblem, currentProgress])
+
+  const listenedIdRef = useRef<string | null>(null)
+  const { speak } = speech
+
+  useEffect(() => {
+    if (!listeningMode || !canSpeak || currentId == null || !currentProgress || view !== 'practice') {
+      return
+    }
+
+    const untouched = !currentProgress.solved && currentProgress.attempts === 0 && currentProgress.past.length === 0
+    if (!untouched || listenedIdRef.current === currentId) {
+      return
+    }
+
+    listenedIdRef.current = currentId
+    speak(currentSentence)
+  }, [canSpeak, currentId, currentProgress, currentSentence, listeningMode, speak, view])
+
+  useEffect(() => {
+    if (currentId == null || !currentProgress || currentProgress.startedAt != null) {
+      return
+    }
+
+    const startedAt = Date.now()
+    setSession((previous) => {
+      if (!previous || previous.current !== currentId) {
+        return previous
+      }
+
+      return updateProgress(previous, currentId, (entry) =>
+        entry.startedAt == null ? { ...entry, startedAt } : entry,
+      )
+    })
+  }, [currentId, currentProgress, setSession])
 
   const problemEyebrow = useMemo(() => {
     if (statusMessage) {
       if (state.status === 'loading') {
-        return 'Preparing your first challenge'
+        return t('practice.preparing')
       }
 
       if (state.status === 'error') {
-        return 'Status update'
+        return t('practice.statusUpdate')
       }
 
-      return 'Practice workspace'
+      return t('practice.workspace')
     }
 
-    if (!currentProblem || !currentProgress || totalProblems === 0) {
-      return 'Practice workspace'
+    if (!currentProblem || !currentProgress || scheduledCount === 0) {
+      return t('practice.workspace')
     }
 
     if (currentProgress.solved) {
       if (allSolved) {
-        return 'All prompts solved'
+        return t('practice.allDone')
       }
 
-      return `Solved ${solvedCount} of ${totalProblems}`
+      return t('practice.solvedOf', { count: solvedCount, total: scheduledCount })
     }
 
-    return `Problem ${solvedCount + 1} of ${totalProblems}`
+    return t('practice.reviewOf', { position: solvedCount + 1, total: scheduledCount })
   }, [
     statusMessage,
     state.status,
     currentProblem,
     currentProgress,
-    totalProblems,
+    scheduledCount,
     allSolved,
     solvedCount,
+    t,
   ])
 
   const handleReorder = (nextFragments: TokenFragment[]) => {
@@ -232,70 +572,252 @@ function App() {
         return previous
       }
 
-      const activeIndex = previous.current
-      const nextProgress = previous.progress.map((entry, index) =>
-        index === activeIndex
-          ? {
-              fragments: nextFragments,
-              solved: entry.solved,
-            }
-          : entry,
-      )
+      return updateProgress(previous, previous.current, (entry) => commitFragments(entry, nextFragments))
+    })
+  }
 
-      return { ...previous, progress: nextProgress }
+  const handleTapArrange = (nextFragments: TokenFragment[], placedTokens: number) => {
+    setSession((previous) => {
+      if (!previous || previous.current == null) {
+        return previous
+      }
+
+      return updateProgress(previous, previous.current, (entry) =>
+        commitFragments(entry, nextFragments, placedTokens),
+      )
     })
   }
 
-  const handleSolve = () => {
-    if (state.status !== 'success') {
+  const updateCurrentProgress = useCallback(
+    (update: (entry: ProblemProgress) => ProblemProgress) => {
+      setSession((previous) => {
+        if (!previous || previous.current == null) {
+          return previous
+        }
+
+        return updateProgress(previous, previous.current, update)
+      })
+    },
+    [setSession],
+  )
+
+  const handleUndo = useCallback(() => updateCurrentProgress(undoFragments), [updateCurrentProgress])
+  const handleRedo = useCallback(() => updateCurrentProgress(redoFragments), [updateCurrentProgress])
+
+  useEffect(() => {
+    if (view !== 'practice') {
       return
     }
 
-    setSession((previous) => {
-      if (!previous || previous.current == null || !problems) {
-        return previous
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+        return
+      }
+
+      const target = event.target as HTMLElement | null
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return
+      }
+
+      const key = event.key.toLowerCase()
+      if (key === 'z') {
+        event.preventDefault()
+        if (event.shiftKey) {
+          handleRedo()
+        } else {
+          handleUndo()
+        }
+      } else if (key === 'y' && !event.shiftKey) {
+        event.preventDefault()
+        handleRedo()
       }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleRedo, handleUndo, view])
 
-      const activeIndex = previous.current
-      const problem = problems[activeIndex]
-      if (!problem) {
+  const handleSpeakFragment = (fragment: TokenFragment) => {
+    if (currentProblem) {
+      speak(getFragmentText(fragment, currentProblem.tokens))
+    }
+  }
+
+  const handleDiscard = (fragment: TokenFragment) => {
+    updateCurrentProgress((entry) => discardFragment(entry, fragment.id))
+  }
+
+  const handleRestore = (fragment: TokenFragment) => {
+    updateCurrentProgress((entry) => restoreFragment(entry, fragment.id))
+  }
+
+  const handleSolve = () => {
+    if (!session || currentId == null || !currentProblem || !currentProgress || currentProgress.solved) {
+      return
+    }
+
+    const activeId = currentId
+    const problem = currentProblem
+    const progressEntry = currentProgress
+
+    // In tap mode only the answer line is judged; the bank is still unplaced.
+    // In drag mode the whole line is judged, with any distractors left on it.
+    const judgedLength = inputMode === 'tap' ? getPlacedLength(progressEntry) : Number.POSITIVE_INFINITY
+    const evaluation = evaluateFragments(progressEntry.fragments, problem.tokens, currentOrders ?? undefined, {
+      judgedLength,
+      distractors: progressEntry.distractors,
+      discarded: progressEntry.discarded,
+    })
+    const attempts = progressEntry.attempts + 1
+    const hinted = progressEntry.hints.length > 0
+    const score = t('practice.score', { count: evaluation.lockedCount, total: problem.tokens.length })
+    announceSolve(
+      evaluation.isSolved
+        ? `${score} ${t('practice.solved')}`
+        : evaluation.lockedCount === problem.tokens.length
+          ? `${score} ${t('practice.discardRemaining')}`
+          : score,
+    )
+
+    setSession((previous) => {
+      if (!previous || previous.current !== activeId) {
         return previous
       }
-      const progressEntry = previous.progress[activeIndex]
 
-      const evaluation = evaluateFragments(progressEntry.fragments, problem.tokens.length)
+      const updated = updateProgress(previous, activeId, (entry) => {
+        const evaluated = {
+          ...commitFragments(entry, evaluation.fragments, entry.placedTokens, evaluation.discarded),
+          attempts,
+          highlightedIndex: null,
+        }
 
-      const nextProgress = previous.progress.map((entry, index) =>
-        index === activeIndex
-          ? {
-              fragments: evaluation.fragments,
-              solved: entry.solved || evaluation.isSolved,
-            }
-          : entry,
-      )
+        // A solved problem can no longer be undone, so its history is dropped.
+        return evaluation.isSolved || entry.solved
+          ? { ...evaluated, solved: true, past: [], future: [] }
+          : evaluated
+      })
 
       const nextQueue = evaluation.isSolved
-        ? previous.queue.filter((index) => index !== activeIndex)
-        : previous.queue
+        ? updated.queue.filter((id) => id !== activeId)
+        : updated.queue
 
-      return {
-        ...previous,
-        progress: nextProgress,
-        queue: nextQueue,
-      }
+      return { ...updated, queue: nextQueue }
     })
+
+    const now = Date.now()
+    // Only tokens placed on the judged part of the line count: tokens still in
+    // the tap-mode bank were never placed, distractors are not part of the
+    // sentence and discarded tokens are returned to the line by evaluation.
+    const discardedIndices = new Set(progressEntry.discarded.flatMap((fragment) => fragment.indices))
+    const misplaced: number[] = []
+    let linePosition = 0
+    evaluation.fragments.forEach((fragment) => {
+      fragment.indices.forEach((index) => {
+        const judged = linePosition < judgedLength && index < problem.tokens.length && !discardedIndices.has(index)
+        if (judged && !fragment.locked) {
+          misplaced.push(index)
+        }
+        linePosition += 1
+      })
+    })
+
+    setHistory((previous) => {
+      const withAttempt = recordAttempt(previous, activeId, {
+        at: now,
+        lockedCount: evaluation.lockedCount,
+        totalTokens: problem.tokens.length,
+        misplaced,
+      })
+
+      return evaluation.isSolved && progressEntry.startedAt != null
+        ? recordSolveTime(withAttempt, activeId, now - progressEntry.startedAt, hinted)
+        : withAttempt
+    })
+
+    if (evaluation.isSolved) {
+      setReviews((previous) => ({
+        ...previous,
+        [activeId]: reviewProblem(
+          previous[activeId],
+          gradeFromAttempts(attempts, getHintPenalty(progressEntry.hints)),
+          now,
+        ),
+      }))
+    }
   }
 
-  const handleSkip = () => {
+  const nextHint = currentProgress ? getNextHint(currentProgress.hints, currentProgress.highlightedIndex != null) : null
+  const hasHintTarget = Boolean(
+    currentProblem &&
+      currentProgress &&
+      findHintTarget(currentProgress.fragments, currentProblem.tokens, currentOrders ?? undefined),
+  )
+
+  const handleHint = () => {
+    if (!session || currentId == null || !currentProblem || !currentProgress || currentProgress.solved) {
+      return
+    }
+
+    if (!nextHint || (nextHint !== 'note' && !hasHintTarget)) {
+      return
+    }
+
+    const activeId = currentId
+    const problem = currentProblem
+    const hint = nextHint
+    const orders = currentOrders ?? undefined
+
     setSession((previous) => {
-      if (!previous || previous.current == null) {
+      if (!previous || previous.current !== activeId) {
         return previous
       }
 
-      const activeIndex = previous.current
-      const progressEntry = previous.progress[activeIndex]
+      return updateProgress(previous, activeId, (entry) => {
+        const hints = [...entry.hints, hint]
+
+        if (hint === 'highlight') {
+          const target = findHintTarget(entry.fragments, problem.tokens, orders)
+          return { ...entry, hints, highlightedIndex: target?.index ?? null }
+        }
 
-      if (progressEntry.solved || previous.queue.length === 0) {
+        if (hint === 'place') {
+          // A token taken from the tap-mode bank lengthens the answer line.
+          const placedLength = getPlacedLength(entry)
+          const target = findHintTarget(entry.fragments, problem.tokens, orders)
+          const flatIndices = entry.fragments.flatMap((fragment) => fragment.indices)
+          const fromBank = target !== null && flatIndices.indexOf(target.index) >= placedLength
+
+          return {
+            ...commitFragments(
+              entry,
+              placeHintToken(entry.fragments, problem.tokens, orders),
+              fromBank ? placedLength + 1 : placedLength,
+            ),
+            hints,
+            highlightedIndex: null,
+          }
+        }
+
+        return { ...entry, hints }
+      })
+    })
+
+    setHistory((previous) => recordHint(previous, activeId))
+  }
+
+  const handleSkip = () => {
+    if (!session || currentId == null || !currentProgress) {
+      return
+    }
+
+    const activeId = currentId
+
+    if (currentProgress.solved || session.queue.length === 0) {
+      return
+    }
+
+    setSession((previous) => {
+      if (!previous || previous.current !== activeId || previous.queue.length === 0) {
         return previous
       }
 
@@ -304,9 +826,11 @@ function App() {
       return {
         ...previous,
         current: next,
-        queue: [...rest, activeIndex],
+        queue: [...rest, activeId],
       }
     })
+
+    setHistory((previous) => recordSkip(previous, activeId))
   }
 
   const handleNext = () => {
@@ -325,83 +849,447 @@ function App() {
     })
   }
 
+  const handleSelectPack = (pack: PackSummary) => {
+    setSelectedPackId(pack.id)
+    setView('practice')
+  }
+
+  const handleImportPack = (importedProblems: ProblemSet, title: string) => {
+    const pack = createCustomPack(importedProblems, title, Date.now(), t, locale)
+    setCustomPacks((previous) => [...previous.filter((entry) => entry.id !== pack.id), pack])
+    handleSelectPack(pack)
+  }
+
+  const handleRemovePack = (pack: PackSummary) => {
+    setCustomPacks((previous) => previous.filter((entry) => entry.id !== pack.id))
+    if (selectedPackId === pack.id) {
+      setSelectedPackId(null)
+    }
+  }
+
+  // Restored data was written straight to storage, so every piece of state is reloaded from it.
+  const handleBackupRestored = () => {
+    window.location.reload()
+  }
+
   const handleRestart = () => {
     if (!problems || problems.length === 0) {
       return
     }
 
-    setSession(() => createRandomizedSession(problems))
+    setSession((previous) =>
+      createRandomizedSession(problems, reviews, { tags: previous?.tags, difficulty: previous?.difficulty }),
+    )
+  }
+
+  const handleStartFiltered = (tags: string[]) => {
+    if (!problems || problems.length === 0) {
+      return
+    }
+
+    setSession((previous) => createRandomizedSession(problems, reviews, { tags, difficulty: previous?.difficulty }))
+  }
+
+  // Boards are dealt when a session starts, so a new difficulty starts a new session.
+  const handleChangeDifficulty = (next: Difficulty) => {
+    if (!problems || problems.length === 0 || next === difficulty) {
+      return
+    }
+
+    setSession((previous) => createRandomizedSession(problems, reviews, { tags: previous?.tags, difficulty: next }))
   }
 
   const canSolve = Boolean(currentProgress && !currentProgress.solved)
+  const undoAvailable = Boolean(currentProgress && canUndo(currentProgress))
+  const redoAvailable = Boolean(currentProgress && canRedo(currentProgress))
+  const canHint = canSolve && (nextHint === 'note' || hasHintTarget)
+  const showNote = Boolean(currentProgress && (currentProgress.solved || currentProgress.hints.includes('note')))
   const canSkip = Boolean(currentProgress && !currentProgress.solved && remainingQueue > 0)
   const showNext = Boolean(currentProgress?.solved && remainingQueue > 0)
-  const showRestart = Boolean(currentProgress?.solved && remainingQueue === 0 && totalProblems > 0)
+  const showRestart = Boolean(currentProgress?.solved && remainingQueue === 0 && scheduledCount > 0)
 
   return (
     <div className="app" data-status={state.status}>
-      <main className="app__main" aria-live="polite" aria-busy={state.status === 'loading'}>
+      <main
+        className="app__main"
+        aria-live="polite"
+        aria-busy={state.status === 'loading' || packsState.status === 'loading'}
+      >
         <div className="layout">
-          <section className="card" aria-label="Practice workspace">
-            <header className="card__header">
-              <div>
-                <p className="card__eyebrow">{problemEyebrow}</p>
-                <h2 className="card__title">Arrange the phrase</h2>
+          {updateAvailable ? (
+            <div className="notice" role="status">
+              <p className="notice__text">{t('update.available')}</p>
+              <button className="button button--primary button--small" type="button" onClick={applyUpdate}>
+                {t('update.reload')}
+              </button>
+            </div>
+          ) : null}
+
+          {offerProblemsUpdate ? (
+            <div className="notice" role="status">
+              <p className="notice__text">
+                {selectedPack
+                  ? t('problemsUpdate.availableForPack', { pack: selectedPack.title })
+                  : t('problemsUpdate.available')}
+              </p>
+              <div className="notice__actions">
+                <button
+                  className="button button--primary button--small"
+                  type="button"
+                  onClick={handleLoadProblemsUpdate}
+                >
+                  {t('problemsUpdate.load')}
+                </button>
+                <button
+                  className="button button--ghost button--small"
+                  type="button"
+                  onClick={handleDismissProblemsUpdate}
+                >
+                  {t('problemsUpdate.later')}
+                </button>
               </div>
-              <span className="theme-indicator" aria-live="polite">
-                {scheme === 'dark' ? 'Dark mode' : 'Light mode'}
-              </span>
-            </header>
-
-            <div className="card__body workspace__body">
-              {statusMessage ? (
-                <div className="status" role={state.status === 'error' ? 'alert' : undefined}>
-                  <p className="status__title">{statusMessage.title}</p>
-                  {statusMessage.detail ? <p className="status__detail">{statusMessage.detail}</p> : null}
+            </div>
+          ) : null}
+
+          <div className="layout__bar">
+            <nav className="view-tabs" aria-label={t('views.label')}>
+              {VIEW_TABS.map((tab) => (
+                <button
+                  key={tab.view}
+                  className="view-tabs__tab"
+                  type="button"
+                  aria-pressed={view === tab.view}
+                  onClick={() => setView(tab.view)}
+                >
+                  {t(tab.label)}
+                </button>
+              ))}
+            </nav>
+            <select
+              className="layout__select"
+              aria-label={t('language.label')}
+              value={locale}
+              onChange={(event) => {
+                if (isLocale(event.target.value)) {
+                  setLocale(event.target.value)
+                }
+              }}
+            >
+              {LOCALES.map((option) => (
+                <option key={option} value={option} lang={option}>
+                  {LOCALE_NAMES[option]}
+                </option>
+              ))}
+            </select>
+            <select
+              className="layout__select"
+              aria-label={t('theme.label')}
+              value={themePreference}
+              onChange={(event) => {
+                if (isThemePreference(event.target.value)) {
+                  setThemePreference(event.target.value)
+                }
+              }}
+            >
+              {THEME_PREFERENCES.map((option) => (
+                <option key={option} value={option}>
+                  {t(THEME_LABELS[option])}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {view === 'packs' ? (
+            <section className="card" aria-label={t('packs.title')}>
+              <header className="card__header">
+                <div>
+                  <p className="card__eyebrow">{t('packs.eyebrow')}</p>
+                  <h2 className="card__title">{t('packs.title')}</h2>
                 </div>
-              ) : currentProblem && currentProgress ? (
-                <>
-                  <TokenList
-                    fragments={currentProgress.fragments}
-                    solutionTokens={currentProblem.tokens}
-                    onReorder={handleReorder}
+              </header>
+              <div className="card__body">
+                {packs ? (
+                  <PackPicker packs={packs} selectedId={selectedPackId} onSelect={handleSelectPack} />
+                ) : statusMessage ? (
+                  <div className="status" role={packsState.status === 'error' ? 'alert' : undefined}>
+                    <p className="status__title">{statusMessage.title}</p>
+                    {statusMessage.detail ? <p className="status__detail">{statusMessage.detail}</p> : null}
+                  </div>
+                ) : null}
+
+                {customPacks.length > 0 ? (
+                  <section className="packs__section" aria-labelledby="custom-packs-title">
+                    <h3 className="packs__heading" id="custom-packs-title">
+                      {t('packs.imported')}
+                    </h3>
+                    <PackPicker
+                      packs={customPacks}
+                      selectedId={selectedPackId}
+                      onSelect={handleSelectPack}
+                      onRemove={handleRemovePack}
+                    />
+                  </section>
+                ) : null}
+
+                <details className="disclosure">
+                  <summary className="disclosure__summary">{t('packs.import')}</summary>
+                  <ImportPanel onImport={handleImportPack} />
+                </details>
+
+                <details className="disclosure">
+                  <summary className="disclosure__summary">{t('packs.backup')}</summary>
+                  <BackupPanel
+                    packs={[...(packs ?? []), ...customPacks]}
+                    packHashes={packHashes}
+                    onRestored={handleBackupRestored}
                   />
-                  {currentProgress.solved ? (
-                    <aside className="workspace__note" aria-live="polite">
-                      <h3 className="workspace__note-title">Grammar note</h3>
-                      <p className="workspace__note-body">{currentProblem.note}</p>
-                    </aside>
-                  ) : null}
-                </>
-              ) : null}
-            </div>
-
-            <footer className="card__footer workspace__controls" aria-label="Game controls">
-              <button
-                className="button button--primary"
-                type="button"
-                onClick={handleSolve}
-                disabled={!canSolve}
-              >
-                Solve phrase
-              </button>
+                </details>
+              </div>
+            </section>
+          ) : view === 'editor' ? (
+            <section className="card" aria-label={t('editor.title')}>
+              <header className="card__header">
+                <div>
+                  <p className="card__eyebrow">{t('editor.eyebrow')}</p>
+                  <h2 className="card__title">{t('editor.title')}</h2>
+                </div>
+              </header>
+              <div className="card__body">
+                <ProblemEditor onPractise={handleImportPack} />
+              </div>
+            </section>
+          ) : view === 'challenge' ? (
+            <section className="card" aria-label={t('views.challenge')}>
+              <header className="card__header">
+                <div>
+                  <p className="card__eyebrow">{t('challenge.eyebrow')}</p>
+                  <h2 className="card__title">{t('views.challenge')}</h2>
+                </div>
+              </header>
+              <div className="card__body">
+                {statusMessage ? (
+                  <div className="status">
+                    <p className="status__title">{statusMessage.title}</p>
+                    {statusMessage.detail ? <p className="status__detail">{statusMessage.detail}</p> : null}
+                  </div>
+                ) : loadedPackId && problems ? (
+                  <ChallengeView key={loadedPackId} packId={loadedPackId} problems={problems} inputMode={inputMode} />
+                ) : null}
+              </div>
+            </section>
+          ) : view === 'stats' ? (
+            <section className="card" aria-label={t('views.stats')}>
+              <header className="card__header">
+                <div>
+                  <p className="card__eyebrow">{t('stats.eyebrow')}</p>
+                  <h2 className="card__title">{t('views.stats')}</h2>
+                </div>
+              </header>
+              <div className="card__body">
+                <StatsView problems={problems ?? []} history={history} />
+              </div>
+            </section>
+          ) : (
+            <section className="card" aria-label={t('practice.workspace')}>
+              <header className="card__header">
+                <div>
+                  <p className="card__eyebrow">{problemEyebrow}</p>
+                  <h2 className="card__title">
+                    {currentProblem?.translation && !statusMessage ? t('practice.buildMeaning') : t('practice.arrange')}
+                  </h2>
+                </div>
+              </header>
+
+              <div className="card__body workspace__body">
+                {statusMessage ? (
+                  <div
+                    className="status"
+                    role={state.status === 'error' || packsState.status === 'error' ? 'alert' : undefined}
+                  >
+                    <p className="status__title">{statusMessage.title}</p>
+                    {statusMessage.detail ? <p className="status__detail">{statusMessage.detail}</p> : null}
+                  </div>
+                ) : currentProblem && currentProgress ? (
+                  <>
+                    {currentProblem.translation ? (
+                      <p className="workspace__prompt" lang="en">
+                        “{currentProblem.translation}”
+                      </p>
+                    ) : null}
+                    <div className="workspace__toolbar">
+                      <div className="view-tabs workspace__modes" role="group" aria-label={t('practice.inputMode')}>
+                        {INPUT_MODES.map(({ mode, label }) => (
+                          <button
+                            key={mode}
+                            className="view-tabs__tab"
+                            type="button"
+                            aria-pressed={inputMode === mode}
+                            onClick={() => setInputMode(mode)}
+                          >
+                            {t(label)}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="view-tabs workspace__modes" role="group" aria-label={t('practice.difficulty')}>
+                        {DIFFICULTIES.map(({ difficulty: level, label }) => (
+                          <button
+                            key={level}
+                            className="view-tabs__tab"
+                            type="button"
+                            aria-pressed={difficulty === level}
+                            onClick={() => handleChangeDifficulty(level)}
+                            title={level === difficulty ? undefined : t('practice.restartHint')}
+                          >
+                            {t(label)}
+                          </button>
+                        ))}
+                      </div>
+                      <button
+                        className="button button--ghost button--small"
+                        type="button"
+                        aria-pressed={listeningMode}
+                        onClick={() => setListeningMode((previous) => !previous)}
+                        title={t('practice.listeningHint')}
+                      >
+                        {t('practice.listening')}
+                      </button>
+                      {listeningMode && !currentProgress.solved ? (
+                        <button
+                          className="button button--ghost button--small"
+                          type="button"
+                          onClick={() => speak(currentSentence)}
+                          disabled={!canSpeak}
+                        >
+                          {t('practice.listenAgain')}
+                        </button>
+                      ) : null}
+                      <button
+                        className="button button--ghost button--small"
+                        type="button"
+                        onClick={handleUndo}
+                        disabled={!undoAvailable}
+                        title={t('practice.undoHint')}
+                      >
+                        {t('practice.undo')}
+                      </button>
+                      <button
+                        className="button button--ghost button--small"
+                        type="button"
+                        onClick={handleRedo}
+                        disabled={!redoAvailable}
+                        title={t('practice.redoHint')}
+                      >
+                        {t('practice.redo')}
+                      </button>
+                    </div>
+                    {inputMode === 'tap' ? (
+                      <TapBoard
+                        fragments={currentProgress.fragments}
+                        solutionTokens={boardTokens}
+                        placedLength={getPlacedLength(currentProgress)}
+                        onArrange={handleTapArrange}
+                        highlightedIndex={currentProgress.highlightedIndex}
+                        onSpeak={canSpeak ? handleSpeakFragment : undefined}
+                        glosses={currentProblem.glosses}
+                        discarded={currentProgress.discarded}
+                        onDiscard={currentProgress.distractors.length > 0 ? handleDiscard : undefined}
+                        onRestore={handleRestore}
+                      />
+                    ) : (
+                      <TokenList
+                        fragments={currentProgress.fragments}
+                        solutionTokens={boardTokens}
+                        onReorder={handleReorder}
+                        highlightedIndex={currentProgress.highlightedIndex}
+                        onSpeak={canSpeak ? handleSpeakFragment : undefined}
+                        glosses={currentProblem.glosses}
+                        discarded={currentProgress.discarded}
+                        onDiscard={currentProgress.distractors.length > 0 ? handleDiscard : undefined}
+                        onRestore={handleRestore}
+                      />
+                    )}
+                    {showNote ? (
+                      <aside className="workspace__note" aria-live="polite">
+                        <h3 className="workspace__note-title">
+                          {currentProgress.solved ? t('practice.note') : t('practice.noteHint')}
+                        </h3>
+                        <p className="workspace__note-body">{currentProblem.note}</p>
+                        {currentProgress.solved ? (
+                          <button
+                            className="button button--secondary button--small workspace__play"
+                            type="button"
+                            onClick={() => speak(currentSentence)}
+                            disabled={!canSpeak}
+                          >
+                            {t('practice.playSentence')}
+                          </button>
+                        ) : null}
+                        {currentProgress.solved && currentReview ? (
+                          <p className="workspace__schedule">
+                            {formatNextReview(getDaysUntilDue(currentReview, Date.now()), t)}
+                          </p>
+                        ) : null}
+                      </aside>
+                    ) : null}
+                    {speechMessage && (currentProgress.solved || listeningMode) ? (
+                      <p className="workspace__audio-status" role="status">
+                        {speechMessage}
+                      </p>
+                    ) : null}
+                    {problems && problems.some((problem) => problem.tags && problem.tags.length > 0) ? (
+                      <details className="disclosure">
+                        <summary className="disclosure__summary">
+                          {t('practice.byTopic')}
+                          {activeTags.length > 0 ? ` · ${activeTags.join(', ')}` : ''}
+                        </summary>
+                        <TagFilter
+                          key={`${loadedPackId}:${activeTags.join(',')}`}
+                          problems={problems}
+                          activeTags={activeTags}
+                          onStart={handleStartFiltered}
+                        />
+                      </details>
+                    ) : null}
+                  </>
+                ) : null}
+                {state.status === 'success' && state.source ? (
+                  <p className="workspace__data-source" data-source={state.source}>
+                    {formatDataSource(state.source, state.fetchedAt, Date.now(), locale, t)}
+                  </p>
+                ) : null}
+              </div>
 
-              {showNext ? (
-                <button className="button button--secondary" type="button" onClick={handleNext}>
-                  Next prompt
+              <footer className="card__footer workspace__controls" aria-label={t('practice.controls')}>
+                <button
+                  className="button button--primary"
+                  type="button"
+                  onClick={handleSolve}
+                  disabled={!canSolve}
+                >
+                  {t('practice.solve')}
                 </button>
-              ) : showRestart ? (
-                <button className="button button--secondary" type="button" onClick={handleRestart}>
-                  Restart session
-                </button>
-              ) : (
-                <button className="button button--ghost" type="button" onClick={handleSkip} disabled={!canSkip}>
-                  Skip for now
+
+                <button className="button button--ghost" type="button" onClick={handleHint} disabled={!canHint}>
+                  {nextHint ? t(HINT_LABELS[nextHint]) : t('hint.default')}
                 </button>
-              )}
-            </footer>
-          </section>
 
+                {showNext ? (
+                  <button className="button button--secondary" type="button" onClick={handleNext}>
+                    {t('practice.next')}
+                  </button>
+                ) : showRestart ? (
+                  <button className="button button--secondary" type="button" onClick={handleRestart}>
+                    {t('practice.newSession')}
+                  </button>
+                ) : (
+                  <button className="button button--ghost" type="button" onClick={handleSkip} disabled={!canSkip}>
+                    {t('practice.skip')}
+                  </button>
+                )}
+                <LiveRegion announcement={solveAnnouncement} />
+              </footer>
+            </section>
+          )}
         </div>
       </main>
     </div>
@@ -0,0 +1,188 @@
+import { useState, type ChangeEvent } from 'react'
+import {
+  createBackup,
+  getBackupFileName,
+  matchPack,
+  parseBackup,
+  restoreBackup,
+  type PackMatch,
+  type ProgressBackup,
+  type RestoreSummary,
+} from '../data/backup'
+import { createProblemSetHash } from '../data/problems'
+import { useI18n } from '../i18n/I18nProvider'
+import { describeError, type PlainMessageKey, type Translate } from '../i18n/translate'
+import type { PackSummary } from '../types'
+import { downloadText } from '../utils/download'
+
+interface BackupPanelProps {
+  /**
+   * Built-in and imported packs on this device.
+   */
+  packs: readonly PackSummary[]
+  /**
+   * Problem-set hash each pack was last loaded with.
+   */
+  packHashes: Readonly<Record<string, string>>
+  onRestored: (summary: RestoreSummary) => void
+}
+
+interface PendingRestore {
+  backup: ProgressBackup
+  matches: Record<string, PackMatch>
+  targets: Record<string, string | null>
+}
+
+const MATCH_LABELS: Record<PackMatch, PlainMessageKey> = {
+  matched: 'backup.matched',
+  'unknown-pack': 'backup.unknownPack',
+  'different-problems': 'backup.differentProblems',
+}
+
+function formatActivity(timestamp: number | null, locale: string, t: Translate): string {
+  return timestamp === null
+    ? t('backup.noActivity')
+    : t('backup.lastActive', { date: new Date(timestamp).toLocaleDateString(locale) })
+}
+
+/**
+ * Exports all progress as a versioned JSON file and merges such a file back
+ * in. Packs that cannot be matched to a local pack are skipped unless the
+ * learner maps them onto one.
+ */
+function BackupPanel({ packs, packHashes, onRestored }: BackupPanelProps) {
+  const { locale, t } = useI18n()
+  const [pending, setPending] = useState<PendingRestore | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleExport = () => {
+    const now = Date.now()
+    downloadText(JSON.stringify(createBackup(window.localStorage, now), null, 2), getBackupFileName(now))
+  }
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+
+    try {
+      const backup = parseBackup(await file.text())
+      const knownHashes = new Map<string, string | null>(packs.map((pack) => [pack.id, packHashes[pack.id] ?? null]))
+      // Imported packs carry their problems, so their hash is always known.
+      backup.customPacks.forEach((pack) => knownHashes.set(pack.id, createProblemSetHash(pack.problems)))
+
+      const matches: Record<string, PackMatch> = {}
+      const targets: Record<string, string | null> = {}
+      backup.packs.forEach((pack) => {
+        matches[pack.packId] = matchPack(pack, knownHashes)
+        targets[pack.packId] = matches[pack.packId] === 'matched' ? pack.packId : null
+      })
+
+      setPending({ backup, matches, targets })
+      setError(null)
+    } catch (caught) {
+      setPending(null)
+      setError(t('status.readFailed', { file: file.name, message: describeError(caught, t) }))
+    }
+  }
+
+  const handleTargetChange = (packId: string, targetId: string) => {
+    setPending((previous) =>
+      previous ? { ...previous, targets: { ...previous.targets, [packId]: targetId === '' ? null : targetId } } : null,
+    )
+  }
+
+  const handleRestore = () => {
+    if (!pending) {
+      return
+    }
+
+    try {
+      onRestored(restoreBackup(window.localStorage, pending.backup, pending.targets))
+      setPending(null)
+      setError(null)
+    } catch (caught) {
+      console.warn('Failed to restore the backup.', caught)
+      setPending(null)
+      setError(describeError(caught, t))
+    }
+  }
+
+  const targetOptions = [
+    ...packs,
+    ...(pending?.backup.customPacks.filter((pack) => !packs.some((entry) => entry.id === pack.id)) ?? []),
+  ]
+  const getTitle = (packId: string) => targetOptions.find((pack) => pack.id === packId)?.title ?? packId
+
+  return (
+    <div className="backup">
+      <p className="field__hint">{t('backup.intro')}</p>
+
+      <div className="import__actions">
+        <button className="button button--secondary" type="button" onClick={handleExport}>
+          {t('backup.export')}
+        </button>
+        <label className="button button--ghost import__file">
+          {t('backup.import')}
+          <input type="file" accept=".json,application/json" onChange={handleFileChange} />
+        </label>
+      </div>
+
+      {error ? (
+        <div className="status status--error" role="alert">
+          <p className="status__title">{t('backup.error')}</p>
+          <p className="status__detail">{error}</p>
+        </div>
+      ) : null}
+
+      {pending ? (
+        <section className="backup__review" aria-labelledby="backup-review-title">
+          <h3 className="packs__heading" id="backup-review-title">
+            {t('backup.from', { date: new Date(pending.backup.exportedAt).toLocaleString(locale) })}
+          </h3>
+          {pending.backup.packs.length === 0 ? (
+            <p className="field__hint">{t('backup.empty')}</p>
+          ) : (
+            <ul className="backup__packs">
+              {pending.backup.packs.map((pack) => (
+                <li key={pack.packId} className="backup__pack" data-match={pending.matches[pack.packId]}>
+                  <span className="backup__pack-title">{getTitle(pack.packId)}</span>
+                  <span className="backup__pack-meta">{formatActivity(pack.lastActivity, locale, t)}</span>
+                  <span className="field__hint">{t(MATCH_LABELS[pending.matches[pack.packId]])}</span>
+                  <label className="field">
+                    <span className="field__label">{t('backup.mergeInto')}</span>
+                    <select
+                      className="field__input"
+                      value={pending.targets[pack.packId] ?? ''}
+                      onChange={(event) => handleTargetChange(pack.packId, event.target.value)}
+                    >
+                      <option value="">{t('backup.skip')}</option>
+                      {targetOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.title}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="field__hint">{t('backup.mergeRule')}</p>
+          <div className="import__actions">
+            <button className="button button--ghost" type="button" onClick={() => setPending(null)}>
+              {t('backup.cancel')}
+            </button>
+            <button className="button button--primary" type="button" onClick={handleRestore}>
+              {t('backup.restore')}
+            </button>
+          </div>
+        </section>
+      ) : null}
+    </div>
+  )
+}
+
+export default BackupPanel
@@ -0,0 +1,284 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { getProblemId } from '../data/problems'
+import { BESTS_STORAGE_KEY } from '../data/storage'
+import { usePersistentState } from '../hooks/usePersistentState'
+import { useI18n } from '../i18n/I18nProvider'
+import type { PlainMessageKey, Translate } from '../i18n/translate'
+import type { InputMode, Problem, TokenFragment } from '../types'
+import { formatDuration } from '../utils/analytics'
+import {
+  CHALLENGE_MODES,
+  createBestKey,
+  expireChallenge,
+  getChallengeProblemId,
+  getPersonalBest,
+  getRemainingTime,
+  recordPersonalBest,
+  skipChallenge,
+  startChallenge,
+  submitChallenge,
+  SPRINT_DURATION_MS,
+  type ChallengeEndReason,
+  type ChallengeMode,
+  type ChallengeRun,
+  type PersonalBestStore,
+} from '../utils/challenge'
+import { getAcceptedOrders } from '../utils/evaluate'
+import { createSessionSeed } from '../utils/session'
+import TapBoard from './TapBoard'
+import TokenList from './TokenList'
+
+interface ChallengeViewProps {
+  packId: string
+  problems: readonly Problem[]
+  inputMode: InputMode
+}
+
+const TICK_INTERVAL_MS = 250
+const SUMMARY_BEST_COUNT = 5
+
+const END_REASONS: Record<ChallengeEndReason, PlainMessageKey> = {
+  time: 'challenge.endTime',
+  mistake: 'challenge.endMistake',
+  completed: 'challenge.endCompleted',
+}
+
+function describeMode(mode: ChallengeMode, t: Translate): { title: string; description: string } {
+  return mode === 'sprint'
+    ? {
+        title: t('challenge.sprint'),
+        description: t('challenge.sprintDescription', { duration: formatDuration(SPRINT_DURATION_MS, t) }),
+      }
+    : { title: t('challenge.streak'), description: t('challenge.streakDescription') }
+}
+
+function formatScore(mode: ChallengeMode, score: number, t: Translate): string {
+  return t(mode === 'streak' ? 'challenge.streakScore' : 'challenge.sprintScore', { count: score })
+}
+
+function ChallengeView({ packId, problems, inputMode }: ChallengeViewProps) {
+  const { locale, t } = useI18n()
+  const [run, setRun] = useState<ChallengeRun | null>(null)
+  const [bests, setBests] = usePersistentState<PersonalBestStore>(BESTS_STORAGE_KEY, () => ({}))
+  const [now, setNow] = useState(() => Date.now())
+  const [feedback, setFeedback] = useState<'challenge.correct' | 'challenge.notQuite' | null>(null)
+  const [previousBest, setPreviousBest] = useState<number | null>(null)
+  const recordedSeedRef = useRef<string | null>(null)
+
+  const problemsById = useMemo(
+    () => new Map(problems.map((problem) => [getProblemId(problem), problem])),
+    [problems],
+  )
+
+  const isRunning = run !== null && run.endedAt === null
+  const currentId = run ? getChallengeProblemId(run) : null
+  const currentProblem = currentId !== null ? problemsById.get(currentId) ?? null : null
+  const acceptedOrders = useMemo(() => (currentProblem ? getAcceptedOrders(currentProblem) : []), [currentProblem])
+
+  useEffect(() => {
+    if (!isRunning || run?.endsAt === null) {
+      return
+    }
+
+    const interval = window.setInterval(() => {
+      const tick = Date.now()
+      setNow(tick)
+      setRun((previous) => (previous ? expireChallenge(previous, tick) : previous))
+    }, TICK_INTERVAL_MS)
+
+    return () => window.clearInterval(interval)
+  }, [isRunning, run?.endsAt])
+
+  useEffect(() => {
+    if (!run || run.endedAt === null || recordedSeedRef.current === run.seed) {
+      return
+    }
+
+    recordedSeedRef.current = run.seed
+
+    if (run.score > 0) {
+      setBests((previous) =>
+        recordPersonalBest(previous, createBestKey(run.mode, packId), {
+          score: run.score,
+          attempts: run.attempts,
+          achievedAt: run.endedAt ?? Date.now(),
+          duration: (run.endedAt ?? Date.now()) - run.startedAt,
+        }),
+      )
+    }
+  }, [packId, run, setBests])
+
+  const handleStart = (mode: ChallengeMode) => {
+    const startedAt = Date.now()
+    setNow(startedAt)
+    setFeedback(null)
+    setPreviousBest(getPersonalBest(bests, createBestKey(mode, packId))?.score ?? null)
+    setRun(startChallenge(mode, problems, createSessionSeed(), startedAt))
+  }
+
+  const handleArrange = (fragments: TokenFragment[], placedTokens?: number) => {
+    setFeedback(null)
+    setRun((previous) =>
+      previous && previous.endedAt === null
+        ? { ...previous, fragments, placedTokens: placedTokens ?? previous.placedTokens }
+        : previous,
+    )
+  }
+
+  const handleSolve = () => {
+    if (!run || !currentProblem) {
+      return
+    }
+
+    const judgedLength = inputMode === 'tap' ? run.placedTokens : currentProblem.tokens.length
+    const result = submitChallenge(run, problemsById, acceptedOrders, judgedLength, Date.now())
+    setRun(result.run)
+    setFeedback(result.solved ? 'challenge.correct' : result.run.endedAt === null ? 'challenge.notQuite' : null)
+  }
+
+  const handleSkip = () => {
+    setFeedback(null)
+    setRun((previous) => (previous ? skipChallenge(previous, problemsById) : previous))
+  }
+
+  if (problems.length === 0) {
+    return (
+      <div className="status">
+        <p className="status__title">{t('status.choosePack')}</p>
+        <p className="status__detail">{t('challenge.noProblemsDetail')}</p>
+      </div>
+    )
+  }
+
+  if (run && run.endedAt !== null) {
+    const key = createBestKey(run.mode, packId)
+    const history = (bests[key] ?? []).slice(0, SUMMARY_BEST_COUNT)
+    const isNewBest = run.score > 0 && (previousBest === null || run.score > previousBest)
+
+    return (
+      <div className="challenge challenge__summary">
+        <p className="challenge__reason">{run.endReason ? t(END_REASONS[run.endReason]) : null}</p>
+        <p className="challenge__score">{formatScore(run.mode, run.score, t)}</p>
+        {isNewBest ? <p className="challenge__best">{t('challenge.newBest')}</p> : null}
+
+        {history.length > 0 ? (
+          <section aria-labelledby="challenge-bests-title">
+            <h3 className="stats__heading" id="challenge-bests-title">
+              {t('challenge.bests')}
+            </h3>
+            <ol className="challenge__bests">
+              {history.map((entry) => (
+                <li key={entry.achievedAt} className="challenge__best-entry">
+                  <span>{formatScore(run.mode, entry.score, t)}</span>
+                  <span className="challenge__best-meta">
+                    {new Date(entry.achievedAt).toLocaleDateString(locale)} · {formatDuration(entry.duration, t)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </section>
+        ) : null}
+
+        <div className="challenge__actions">
+          <button className="button button--primary" type="button" onClick={() => handleStart(run.mode)}>
+            {t('challenge.playAgain')}
+          </button>
+          <button className="button button--ghost" type="button" onClick={() => setRun(null)}>
+            {t('challenge.chooseMode')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  if (run && currentProblem) {
+    const remaining = getRemainingTime(run, now)
+    const bankEmpty = inputMode !== 'tap' || run.placedTokens >= currentProblem.tokens.length
+
+    return (
+      <div className="challenge">
+        <div className="challenge__status">
+          <span className="challenge__score-chip" aria-live="polite">
+            {formatScore(run.mode, run.score, t)}
+          </span>
+          {remaining !== null ? (
+            <span className="challenge__timer" role="timer" data-urgent={remaining < 10 * 1000 ? 'true' : undefined}>
+              {formatDuration(remaining, t)}
+            </span>
+          ) : null}
+        </div>
+
+        {currentProblem.translation ? (
+          <p className="workspace__prompt" lang="en">
+            “{currentProblem.translation}”
+          </p>
+        ) : null}
+
+        {inputMode === 'tap' ? (
+          <TapBoard
+            fragments={run.fragments}
+            solutionTokens={currentProblem.tokens}
+            placedLength={run.placedTokens}
+            onArrange={handleArrange}
+            glosses={currentProblem.glosses}
+          />
+        ) : (
+          <TokenList
+            fragments={run.fragments}
+            solutionTokens={currentProblem.tokens}
+            onReorder={handleArrange}
+            glosses={currentProblem.glosses}
+          />
+        )}
+
+        {feedback ? <p className="challenge__feedback">{t(feedback)}</p> : null}
+
+        <div className="challenge__actions">
+          <button
+            className="button button--primary"
+            type="button"
+            onClick={handleSolve}
+            disabled={run.mode === 'streak' && !bankEmpty}
+          >
+            {t('practice.solve')}
+          </button>
+          {run.mode === 'sprint' ? (
+            <button
+              className="button button--ghost"
+              type="button"
+              onClick={handleSkip}
+              disabled={run.order.length < 2}
+            >
+              {t('challenge.skip')}
+            </button>
+          ) : null}
+          <button className="button button--ghost" type="button" onClick={() => setRun(null)}>
+            {t('challenge.quit')}
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <ul className="packs">
+      {CHALLENGE_MODES.map((mode) => {
+        const { title, description } = describeMode(mode, t)
+        const best = getPersonalBest(bests, createBestKey(mode, packId))
+        return (
+          <li key={mode} className="packs__item">
+            <button className="packs__option" type="button" onClick={() => handleStart(mode)}>
+              <span className="packs__header">
+                <span className="packs__title">{title}</span>
+                {best ? <span className="packs__level">{t('challenge.best', { score: best.score })}</span> : null}
+              </span>
+              <span className="packs__description">{description}</span>
+            </button>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default ChallengeView
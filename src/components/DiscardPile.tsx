@@ -0,0 +1,64 @@
+import { useI18n } from '../i18n/I18nProvider'
+import type { TokenFragment } from '../types'
+import { getFragmentText } from '../utils/evaluate'
+import styles from './Token.module.css'
+
+interface DiscardPileProps {
+  fragments: readonly TokenFragment[]
+  tokens: readonly string[]
+  /**
+   * How to discard with the current input mode.
+   */
+  instructions: string
+  onRestore: (fragment: TokenFragment) => void
+  /**
+   * Registers the pile as a drop target when tokens are dragged.
+   */
+  dropRef?: (element: HTMLElement | null) => void
+  /**
+   * Set while a dragged fragment is over the pile.
+   */
+  active?: boolean
+}
+
+/**
+ * Holds the tokens the learner set aside as not belonging to the sentence.
+ * Tapping an unlocked token puts it back on the line; distractors locked by a
+ * Solve press stay here.
+ */
+function DiscardPile({ fragments, tokens, instructions, onRestore, dropRef, active = false }: DiscardPileProps) {
+  const { t } = useI18n()
+
+  return (
+    <div ref={dropRef} className="discard" data-active={active ? 'true' : undefined}>
+      <p className="discard__label">
+        {t('discard.label')} <span className="discard__instructions">{instructions}</span>
+      </p>
+      {fragments.length > 0 ? (
+        <ul className="discard__tokens" aria-label={t('discard.tokens')}>
+          {fragments.map((fragment) => {
+            const text = getFragmentText(fragment, tokens)
+            return (
+              <li key={fragment.id}>
+                <button
+                  className={styles.token}
+                  type="button"
+                  data-tappable="true"
+                  data-discarded="true"
+                  data-locked={fragment.locked ? 'true' : undefined}
+                  disabled={fragment.locked}
+                  aria-label={t(fragment.locked ? 'discard.locked' : 'discard.restore', { token: text })}
+                  onClick={() => onRestore(fragment)}
+                >
+                  <span className={styles.text}>{text}</span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      ) : null}
+    </div>
+  )
+}
+
+export default DiscardPile
@@ -0,0 +1,127 @@
+import { useState, type ChangeEvent, type FormEvent } from 'react'
+import { detectFormatFromSource, type ProblemFormat } from '../data/formats'
+import { ProblemSetError, parseProblemSource } from '../data/problems'
+import { useI18n } from '../i18n/I18nProvider'
+import { describeError } from '../i18n/translate'
+import type { ProblemSet } from '../types'
+
+interface ImportPanelProps {
+  onImport: (problems: ProblemSet, title: string) => void
+}
+
+function getTitleFromFileName(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim()
+}
+
+/**
+ * Renders the `backtick` spans of a message as code.
+ */
+function renderCode(text: string) {
+  return text.split('`').map((part, index) => (index % 2 === 1 ? <code key={index}>{part}</code> : part))
+}
+
+function ImportPanel({ onImport }: ImportPanelProps) {
+  const { t } = useI18n()
+  const [text, setText] = useState('')
+  const [title, setTitle] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+  const [fileFormat, setFileFormat] = useState<ProblemFormat | null>(null)
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+
+    try {
+      setText(await file.text())
+      setFileFormat(detectFormatFromSource(file.name, file.type))
+      setTitle((previous) => previous || getTitleFromFileName(file.name))
+      setErrors([])
+    } catch (error) {
+      setErrors([t('status.readFailed', { file: file.name, message: describeError(error, t) })])
+    }
+  }
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+
+    try {
+      const problems = parseProblemSource(text, fileFormat ?? undefined)
+      if (problems.length === 0) {
+        setErrors([t('import.empty')])
+        return
+      }
+
+      onImport(problems, title)
+      setText('')
+      setFileFormat(null)
+      setTitle('')
+      setErrors([])
+    } catch (error) {
+      setErrors(error instanceof ProblemSetError ? error.getMessages(t) : [describeError(error, t)])
+    }
+  }
+
+  return (
+    <form className="import" onSubmit={handleSubmit}>
+      <label className="field">
+        <span className="field__label">{t('import.title')}</span>
+        <input
+          className="field__input"
+          type="text"
+          value={title}
+          placeholder={t('import.titlePlaceholder')}
+          onChange={(event) => setTitle(event.target.value)}
+        />
+      </label>
+
+      <label className="field">
+        <span className="field__label">{t('import.problems')}</span>
+        <textarea
+          className="field__input field__input--code"
+          rows={8}
+          value={text}
+          spellCheck={false}
+          placeholder='[{ "tokens": ["Eu", "chamo-me", "Paulo"], "note": "chamo-me: first person singular" }]'
+          onChange={(event) => {
+            setText(event.target.value)
+            if (event.target.value.trim() === '') {
+              setFileFormat(null)
+            }
+          }}
+        />
+      </label>
+
+      <p className="field__hint">{renderCode(t('import.formatHelp'))}</p>
+
+      {errors.length > 0 ? (
+        <div className="status status--error" role="alert">
+          <p className="status__title">{t('import.error')}</p>
+          <ul className="status__list">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <div className="import__actions">
+        <label className="button button--ghost import__file">
+          {t('import.loadFile')}
+          <input
+            type="file"
+            accept=".json,.txt,.csv,application/json,text/plain,text/csv"
+            onChange={handleFileChange}
+          />
+        </label>
+        <button className="button button--primary" type="submit" disabled={text.trim() === ''}>
+          {t('import.submit')}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+export default ImportPanel
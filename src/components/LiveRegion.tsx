@@ -0,0 +1,20 @@
+import type { Announcement } from '../hooks/useAnnouncement'
+
+interface LiveRegionProps {
+  announcement: Announcement | null
+}
+
+/**
+ * Reads announcements to screen readers without showing them. Screen readers
+ * ignore an unchanged region, so a repeated message alternates a trailing
+ * no-break space.
+ */
+function LiveRegion({ announcement }: LiveRegionProps) {
+  return (
+    <p className="visually-hidden" role="status" aria-live="polite" aria-atomic="true">
+      {announcement ? `${announcement.message}${announcement.id % 2 === 0 ? '\u00a0' : ''}` : ''}
+    </p>
+  )
+}
+
+export default LiveRegion
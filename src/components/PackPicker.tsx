@@ -0,0 +1,50 @@
+import { useI18n } from '../i18n/I18nProvider'
+import type { PackSummary } from '../types'
+
+interface PackPickerProps {
+  packs: readonly PackSummary[]
+  selectedId: string | null
+  onSelect: (pack: PackSummary) => void
+  onRemove?: (pack: PackSummary) => void
+}
+
+function PackPicker({ packs, selectedId, onSelect, onRemove }: PackPickerProps) {
+  const { t } = useI18n()
+
+  return (
+    <ul className="packs">
+      {packs.map((pack) => {
+        const isSelected = pack.id === selectedId
+        return (
+          <li key={pack.id} className="packs__item">
+            <button
+              className="packs__option"
+              type="button"
+              aria-pressed={isSelected}
+              onClick={() => onSelect(pack)}
+            >
+              <span className="packs__header">
+                <span className="packs__title">{pack.title}</span>
+                <span className="packs__level">{pack.level}</span>
+              </span>
+              <span className="packs__description">{pack.description}</span>
+              {isSelected ? <span className="packs__current">{t('packs.current')}</span> : null}
+            </button>
+            {onRemove ? (
+              <button
+                className="button button--ghost packs__remove"
+                type="button"
+                onClick={() => onRemove(pack)}
+                aria-label={t('packs.removeLabel', { pack: pack.title })}
+              >
+                {t('packs.remove')}
+              </button>
+            ) : null}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default PackPicker
@@ -0,0 +1,296 @@
+import { useMemo, useState } from 'react'
+import { ProblemSetError, normalizeProblems } from '../data/problems'
+import { usePersistentState } from '../hooks/usePersistentState'
+import { useI18n } from '../i18n/I18nProvider'
+import type { ProblemSet, TokenFragment } from '../types'
+import {
+  createDraft,
+  draftToProblem,
+  getDraftWarnings,
+  sanitizeBreaks,
+  serializeProblems,
+  splitWords,
+  type ProblemDraft,
+} from '../utils/authoring'
+import { downloadText } from '../utils/download'
+import { evaluateFragments } from '../utils/evaluate'
+import { createInitialFragments, createSessionSeed } from '../utils/session'
+import SplitEditor from './SplitEditor'
+import TokenList from './TokenList'
+
+interface ProblemEditorProps {
+  onPractise: (problems: ProblemSet, title: string) => void
+}
+
+const DRAFTS_STORAGE_KEY = 'portuguese-reorder-editor-drafts'
+
+interface PreviewState {
+  /**
+   * Tokens and seed the board was built from; a mismatch means the author
+   * edited the problem and the board must be rebuilt.
+   */
+  key: string
+  fragments: TokenFragment[]
+  result: { solved: boolean; placed: number } | null
+}
+
+/**
+ * Keeps existing boundaries that still make sense after the sentence text
+ * changes and adds the default break before any newly typed word.
+ */
+function updateSentence(draft: ProblemDraft, sentence: string): ProblemDraft {
+  const previousStarts = new Set(splitWords(draft.sentence).map((word) => word.start))
+  const kept = sanitizeBreaks(sentence, draft.breaks)
+  const added = splitWords(sentence)
+    .slice(1)
+    .map((word) => word.start)
+    .filter((start) => !previousStarts.has(start))
+
+  return { ...draft, sentence, breaks: sanitizeBreaks(sentence, [...kept, ...added]) }
+}
+
+function ProblemEditor({ onPractise }: ProblemEditorProps) {
+  const { t } = useI18n()
+  const [drafts, setDrafts] = usePersistentState<ProblemDraft[]>(DRAFTS_STORAGE_KEY, () => [createDraft()])
+  const [activeKey, setActiveKey] = useState<string | null>(null)
+  const [title, setTitle] = useState('')
+  const [copied, setCopied] = useState(false)
+
+  const activeDraft = drafts.find((draft) => draft.key === activeKey) ?? drafts[0] ?? null
+  const activeProblem = useMemo(() => (activeDraft ? draftToProblem(activeDraft) : null), [activeDraft])
+  const warnings = useMemo(() => (activeProblem ? getDraftWarnings(activeProblem, t) : []), [activeProblem, t])
+
+  const [previewSeed, setPreviewSeed] = useState(() => createSessionSeed())
+  const [preview, setPreview] = useState<PreviewState | null>(null)
+  const previewKey = activeProblem ? `${previewSeed}:${JSON.stringify(activeProblem.tokens)}` : ''
+  const isPreviewCurrent = preview?.key === previewKey
+  const previewFragments = useMemo(() => {
+    if (isPreviewCurrent && preview) {
+      return preview.fragments
+    }
+
+    return activeProblem ? createInitialFragments(activeProblem, previewSeed) : []
+  }, [activeProblem, isPreviewCurrent, preview, previewSeed])
+  const previewResult = isPreviewCurrent ? preview?.result ?? null : null
+
+  const exportState = useMemo(() => {
+    const problems = drafts.map(draftToProblem)
+    try {
+      return { problems: normalizeProblems(problems), errors: [] as string[] }
+    } catch (error) {
+      const errors = error instanceof ProblemSetError ? error.getMessages(t) : [String(error)]
+      return { problems: null, errors }
+    }
+  }, [drafts, t])
+
+  const exportText = exportState.problems ? serializeProblems(exportState.problems) : ''
+
+  const updateDraft = (key: string, update: (draft: ProblemDraft) => ProblemDraft) => {
+    setDrafts((previous) => previous.map((draft) => (draft.key === key ? update(draft) : draft)))
+  }
+
+  const handleAddDraft = () => {
+    const draft = createDraft()
+    setDrafts((previous) => [...previous, draft])
+    setActiveKey(draft.key)
+  }
+
+  const handleRemoveDraft = (key: string) => {
+    setDrafts((previous) => {
+      const remaining = previous.filter((draft) => draft.key !== key)
+      return remaining.length > 0 ? remaining : [createDraft()]
+    })
+    setActiveKey(null)
+  }
+
+  const handleCheckPreview = () => {
+    if (!activeProblem || previewFragments.length === 0) {
+      return
+    }
+
+    const evaluation = evaluateFragments(previewFragments, activeProblem.tokens)
+    setPreview({
+      key: previewKey,
+      fragments: evaluation.fragments,
+      result: { solved: evaluation.isSolved, placed: evaluation.lockedCount },
+    })
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(exportText)
+      setCopied(true)
+      window.setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.warn('Failed to copy problems to the clipboard.', error)
+    }
+  }
+
+  return (
+    <div className="editor">
+      <nav className="editor__drafts" aria-label={t('editor.problems')}>
+        {drafts.map((draft, index) => (
+          <button
+            key={draft.key}
+            className="view-tabs__tab"
+            type="button"
+            aria-pressed={draft.key === activeDraft?.key}
+            onClick={() => setActiveKey(draft.key)}
+          >
+            {index + 1}
+          </button>
+        ))}
+        <button className="view-tabs__tab" type="button" onClick={handleAddDraft} aria-label={t('editor.add')}>
+          +
+        </button>
+      </nav>
+
+      {activeDraft && activeProblem ? (
+        <section className="editor__section" aria-label={t('editor.details')}>
+          <label className="field">
+            <span className="field__label">{t('editor.sentence')}</span>
+            <textarea
+              className="field__input"
+              rows={3}
+              lang="pt-PT"
+              value={activeDraft.sentence}
+              onChange={(event) => {
+                const sentence = event.target.value
+                updateDraft(activeDraft.key, (draft) => updateSentence(draft, sentence))
+              }}
+            />
+          </label>
+
+          <div className="field">
+            <span className="field__label">{t('editor.boundaries', { count: activeProblem.tokens.length })}</span>
+            <SplitEditor
+              sentence={activeDraft.sentence}
+              breaks={activeDraft.breaks}
+              onChange={(breaks) => updateDraft(activeDraft.key, (draft) => ({ ...draft, breaks }))}
+            />
+          </div>
+
+          <label className="field">
+            <span className="field__label">{t('editor.note')}</span>
+            <textarea
+              className="field__input"
+              rows={2}
+              value={activeDraft.note}
+              onChange={(event) => {
+                const note = event.target.value
+                updateDraft(activeDraft.key, (draft) => ({ ...draft, note }))
+              }}
+            />
+          </label>
+
+          {warnings.length > 0 ? (
+            <div className="status status--warning">
+              <p className="status__title">{t('editor.warnings')}</p>
+              <ul className="status__list">
+                {warnings.map((warning) => (
+                  <li key={warning}>{warning}</li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          <div className="editor__actions">
+            <button
+              className="button button--ghost"
+              type="button"
+              onClick={() => handleRemoveDraft(activeDraft.key)}
+            >
+              {t('editor.remove')}
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      {activeProblem && activeProblem.tokens.length > 0 ? (
+        <section className="editor__section" aria-labelledby="editor-preview-title">
+          <h3 className="packs__heading" id="editor-preview-title">
+            {t('editor.preview')}
+          </h3>
+          <TokenList
+            fragments={previewFragments}
+            solutionTokens={activeProblem.tokens}
+            onReorder={(next) => setPreview({ key: previewKey, fragments: next, result: null })}
+          />
+          {previewResult ? (
+            <p className="editor__result">
+              {previewResult.solved
+                ? t('practice.solved')
+                : t('editor.inPlace', { placed: previewResult.placed, total: activeProblem.tokens.length })}
+            </p>
+          ) : null}
+          <div className="editor__actions">
+            <button
+              className="button button--ghost"
+              type="button"
+              onClick={() => setPreviewSeed(createSessionSeed())}
+            >
+              {t('editor.reshuffle')}
+            </button>
+            <button className="button button--secondary" type="button" onClick={handleCheckPreview}>
+              {t('editor.check')}
+            </button>
+          </div>
+        </section>
+      ) : null}
+
+      <section className="editor__section" aria-labelledby="editor-export-title">
+        <h3 className="packs__heading" id="editor-export-title">
+          {t('editor.export')}
+        </h3>
+        {exportState.errors.length > 0 ? (
+          <div className="status status--error" role="alert">
+            <p className="status__title">{t('editor.invalid')}</p>
+            <ul className="status__list">
+              {exportState.errors.map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+        <label className="field">
+          <span className="field__label">{t('editor.setTitle')}</span>
+          <input
+            className="field__input"
+            type="text"
+            value={title}
+            placeholder={t('editor.setTitlePlaceholder')}
+            onChange={(event) => setTitle(event.target.value)}
+          />
+        </label>
+        <div className="editor__actions">
+          <button
+            className="button button--ghost"
+            type="button"
+            disabled={!exportState.problems}
+            onClick={handleCopy}
+          >
+            {t(copied ? 'editor.copied' : 'editor.copy')}
+          </button>
+          <button
+            className="button button--secondary"
+            type="button"
+            disabled={!exportState.problems}
+            onClick={() => downloadText(exportText, 'problems.json')}
+          >
+            {t('editor.download')}
+          </button>
+          <button
+            className="button button--primary"
+            type="button"
+            disabled={!exportState.problems}
+            onClick={() => exportState.problems && onPractise(exportState.problems, title)}
+          >
+            {t('editor.practise')}
+          </button>
+        </div>
+      </section>
+    </div>
+  )
+}
+
+export default ProblemEditor
@@ -0,0 +1,110 @@
+import { Fragment, useState } from 'react'
+import { useI18n } from '../i18n/I18nProvider'
+import { splitWords, toggleBreak } from '../utils/authoring'
+
+interface SplitEditorProps {
+  sentence: string
+  breaks: readonly number[]
+  onChange: (breaks: number[]) => void
+}
+
+interface WordCharacter {
+  text: string
+  offset: number
+}
+
+function getCharacters(text: string, start: number): WordCharacter[] {
+  let offset = start
+  return Array.from(text, (character) => {
+    const entry = { text: character, offset }
+    offset += character.length
+    return entry
+  })
+}
+
+/**
+ * Lets authors adjust token boundaries. Gaps between words toggle whether
+ * the words stay separate tokens; expanding a word exposes the boundaries
+ * between its characters so strings like "noº45," can be split.
+ */
+function SplitEditor({ sentence, breaks, onChange }: SplitEditorProps) {
+  const { t } = useI18n()
+  const [expandedStart, setExpandedStart] = useState<number | null>(null)
+  const words = splitWords(sentence)
+
+  if (words.length === 0) {
+    return null
+  }
+
+  const renderGap = (offset: number, label: string, inner: boolean) => {
+    const isBreak = breaks.includes(offset)
+    return (
+      <button
+        className="splitter__gap"
+        type="button"
+        data-inner={inner ? 'true' : undefined}
+        aria-pressed={isBreak}
+        aria-label={label}
+        title={t(isBreak ? 'splitter.boundary' : 'splitter.joined')}
+        onClick={() => onChange(toggleBreak(breaks, offset))}
+      />
+    )
+  }
+
+  return (
+    <div className="splitter" role="group" aria-label={t('splitter.label')}>
+      {words.map((word, wordIndex) => {
+        const isExpanded = expandedStart === word.start
+        const characters = getCharacters(word.text, word.start)
+
+        return (
+          <Fragment key={word.start}>
+            {wordIndex > 0 ? renderGap(word.start, t('splitter.before', { word: word.text }), false) : null}
+            {isExpanded ? (
+              <span className="splitter__word" data-expanded="true">
+                {characters.map((character, characterIndex) => (
+                  <Fragment key={character.offset}>
+                    {characterIndex > 0
+                      ? renderGap(
+                          character.offset,
+                          t('splitter.beforeInWord', { character: character.text, word: word.text }),
+                          true,
+                        )
+                      : null}
+                    <span className="splitter__character">{character.text}</span>
+                  </Fragment>
+                ))}
+                <button
+                  className="splitter__collapse"
+                  type="button"
+                  aria-label={t('splitter.done', { word: word.text })}
+                  onClick={() => setExpandedStart(null)}
+                >
+                  ✓
+                </button>
+              </span>
+            ) : (
+              <button
+                className="splitter__word"
+                type="button"
+                title={t('splitter.split')}
+                onClick={() => setExpandedStart(word.start)}
+              >
+                {characters.map((character, characterIndex) => (
+                  <Fragment key={character.offset}>
+                    {characterIndex > 0 && breaks.includes(character.offset) ? (
+                      <span className="splitter__mark" aria-hidden="true" />
+                    ) : null}
+                    {character.text}
+                  </Fragment>
+                ))}
+              </button>
+            )}
+          </Fragment>
+        )
+      })}
+    </div>
+  )
+}
+
+export default SplitEditor
@@ -0,0 +1,136 @@
+import { useMemo } from 'react'
+import { getProblemId } from '../data/problems'
+import { useI18n } from '../i18n/I18nProvider'
+import type { Problem } from '../types'
+import { findHardestTokens, formatDuration, summarizeHistory, type HistoryStore } from '../utils/analytics'
+
+interface StatsViewProps {
+  problems: readonly Problem[]
+  history: HistoryStore
+}
+
+const HARDEST_TOKEN_LIMIT = 10
+const PREVIEW_TOKEN_COUNT = 5
+
+function getProblemPreview(problem: Problem): string {
+  const preview = problem.tokens.slice(0, PREVIEW_TOKEN_COUNT).join(' ')
+  return problem.tokens.length > PREVIEW_TOKEN_COUNT ? `${preview}…` : preview
+}
+
+function StatsView({ problems, history }: StatsViewProps) {
+  const { t } = useI18n()
+  const rows = useMemo(
+    () =>
+      problems
+        .map((problem, index) => ({
+          index,
+          preview: getProblemPreview(problem),
+          summary: summarizeHistory(history[getProblemId(problem)]),
+        }))
+        .filter(({ summary }) => summary.attempts > 0 || summary.skips > 0 || summary.hints > 0),
+    [history, problems],
+  )
+
+  const hardestTokens = useMemo(
+    () => findHardestTokens(problems, getProblemId, history, HARDEST_TOKEN_LIMIT),
+    [history, problems],
+  )
+
+  const totals = useMemo(() => {
+    const attempts = rows.reduce((sum, row) => sum + row.summary.attempts, 0)
+    const solveTimes = problems.flatMap((problem) => history[getProblemId(problem)]?.solveTimes ?? [])
+    const averageSolveTime =
+      solveTimes.length > 0 ? solveTimes.reduce((sum, duration) => sum + duration, 0) / solveTimes.length : null
+
+    const hintedSolves = rows.reduce((sum, row) => sum + row.summary.hintedSolves, 0)
+
+    return { attempts, solves: solveTimes.length, cleanSolves: solveTimes.length - hintedSolves, averageSolveTime }
+  }, [history, problems, rows])
+
+  if (rows.length === 0) {
+    return (
+      <div className="status">
+        <p className="status__title">{t('stats.emptyTitle')}</p>
+        <p className="status__detail">{t('stats.emptyDetail')}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="stats">
+      <dl className="stats__totals">
+        <div className="stats__total">
+          <dt>{t('stats.attempts')}</dt>
+          <dd>{totals.attempts}</dd>
+        </div>
+        <div className="stats__total">
+          <dt>{t('stats.solved')}</dt>
+          <dd>{totals.solves}</dd>
+        </div>
+        <div className="stats__total">
+          <dt>{t('stats.cleanSolves')}</dt>
+          <dd>{totals.cleanSolves}</dd>
+        </div>
+        <div className="stats__total">
+          <dt>{t('stats.averageTime')}</dt>
+          <dd>{totals.averageSolveTime === null ? '—' : formatDuration(totals.averageSolveTime, t)}</dd>
+        </div>
+      </dl>
+
+      <section className="stats__section" aria-labelledby="stats-problems-title">
+        <h3 className="stats__heading" id="stats-problems-title">
+          {t('stats.perProblem')}
+        </h3>
+        <table className="stats__table">
+          <thead>
+            <tr>
+              <th scope="col">{t('stats.problemColumn')}</th>
+              <th scope="col">{t('stats.attemptsColumn')}</th>
+              <th scope="col">{t('stats.solvesColumn')}</th>
+              <th scope="col">{t('stats.timeColumn')}</th>
+              <th scope="col">{t('stats.hintsColumn')}</th>
+              <th scope="col">{t('stats.skipsColumn')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ index, preview, summary }) => (
+              <tr key={index}>
+                <th scope="row">
+                  <span className="stats__problem-number">{index + 1}.</span> {preview}
+                </th>
+                <td>{summary.attempts}</td>
+                <td>
+                  {summary.solves}
+                  {summary.hintedSolves > 0 ? (
+                    <span className="stats__hinted"> {t('stats.hinted', { count: summary.hintedSolves })}</span>
+                  ) : null}
+                </td>
+                <td>{summary.averageSolveTime === null ? '—' : formatDuration(summary.averageSolveTime, t)}</td>
+                <td>{summary.hints}</td>
+                <td>{summary.skips}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      {hardestTokens.length > 0 ? (
+        <section className="stats__section" aria-labelledby="stats-tokens-title">
+          <h3 className="stats__heading" id="stats-tokens-title">
+            {t('stats.hardest')}
+          </h3>
+          <ol className="stats__tokens">
+            {hardestTokens.map(({ token, misses }) => (
+              <li key={token} className="stats__token">
+                <span className="token-chip">{token}</span>
+                <span className="stats__token-count">{t('stats.misses', { count: misses })}</span>
+              </li>
+            ))}
+          </ol>
+        </section>
+      ) : null}
+    </div>
+  )
+}
+
+export default StatsView
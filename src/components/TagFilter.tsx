@@ -0,0 +1,78 @@
+import { useState } from 'react'
+import { useI18n } from '../i18n/I18nProvider'
+import type { Problem } from '../types'
+import { collectTags, matchesTags } from '../utils/tags'
+
+interface TagFilterProps {
+  problems: readonly Problem[]
+  /**
+   * Tags of the running session, used as the initial selection.
+   */
+  activeTags: readonly string[]
+  onStart: (tags: string[]) => void
+}
+
+function formatTag(tag: string): string {
+  return tag.replace(':', ': ').replace(/-/g, ' ')
+}
+
+/**
+ * Lets learners drill only the problems that practise selected grammar
+ * topics. Selecting several tags includes problems matching any of them.
+ */
+function TagFilter({ problems, activeTags, onStart }: TagFilterProps) {
+  const { t } = useI18n()
+  const [selected, setSelected] = useState<string[]>(() => [...activeTags])
+  const tags = collectTags(problems)
+  const matching = problems.filter((problem) => matchesTags(problem, selected)).length
+
+  if (tags.length === 0) {
+    return null
+  }
+
+  const toggle = (tag: string) => {
+    setSelected((previous) =>
+      previous.includes(tag) ? previous.filter((entry) => entry !== tag) : [...previous, tag],
+    )
+  }
+
+  return (
+    <div className="tag-filter">
+      <ul className="tag-filter__tags" aria-label={t('tags.label')}>
+        {tags.map(({ tag, count }) => (
+          <li key={tag}>
+            <button
+              className="tag-filter__tag"
+              type="button"
+              aria-pressed={selected.includes(tag)}
+              data-family={tag.includes(':') ? undefined : 'true'}
+              onClick={() => toggle(tag)}
+            >
+              {formatTag(tag)} <span className="tag-filter__count">{count}</span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="tag-filter__actions">
+        <span className="tag-filter__summary">
+          {selected.length === 0 ? t('tags.all') : t('tags.matching', { matching, count: problems.length })}
+        </span>
+        {selected.length > 0 ? (
+          <button className="button button--ghost button--small" type="button" onClick={() => setSelected([])}>
+            {t('tags.clear')}
+          </button>
+        ) : null}
+        <button
+          className="button button--secondary button--small"
+          type="button"
+          disabled={matching === 0}
+          onClick={() => onStart(selected)}
+        >
+          {t('tags.start')}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default TagFilter
@@ -0,0 +1,184 @@
+import { useLongPress } from '../hooks/useLongPress'
+import { useI18n } from '../i18n/I18nProvider'
+import type { TokenFragment } from '../types'
+import { findLockedTailStart, getFragmentGloss, getFragmentText } from '../utils/evaluate'
+import DiscardPile from './DiscardPile'
+import styles from './Token.module.css'
+
+interface TapBoardProps {
+  fragments: readonly TokenFragment[]
+  solutionTokens: readonly string[]
+  /**
+   * Number of leading tokens that sit on the answer line.
+   */
+  placedLength: number
+  onArrange: (next: TokenFragment[], placedTokens: number) => void
+  highlightedIndex?: number | null
+  onSpeak?: (fragment: TokenFragment) => void
+  glosses?: Readonly<Record<string, string>>
+  /**
+   * Discard area contents. Bank tokens only get a discard button when
+   * `onDiscard` is set, i.e. when the board has distractors.
+   */
+  discarded?: readonly TokenFragment[]
+  onDiscard?: (fragment: TokenFragment) => void
+  onRestore?: (fragment: TokenFragment) => void
+}
+
+interface TapTokenProps {
+  fragment: TokenFragment
+  text: string
+  label: string
+  hinted: boolean
+  gloss: string | null
+  disabled: boolean
+  onTap: () => void
+  onDiscard?: () => void
+}
+
+function TapToken({ fragment, text, label, hinted, gloss, disabled, onTap, onDiscard }: TapTokenProps) {
+  const { t } = useI18n()
+  const longPress = useLongPress<HTMLButtonElement>(Boolean(gloss))
+
+  return (
+    <li className="tap-board__item">
+      <button
+        className={styles.token}
+        type="button"
+        data-tappable="true"
+        data-locked={fragment.locked ? 'true' : undefined}
+        data-hinted={hinted && !fragment.locked ? 'true' : undefined}
+        data-gloss-visible={longPress.active ? 'true' : undefined}
+        disabled={disabled}
+        aria-label={label}
+        onClick={onTap}
+        {...longPress.handlers}
+      >
+        <span className={styles.text}>{text}</span>
+        {gloss ? (
+          <span className={styles.gloss} role="tooltip">
+            {gloss}
+          </span>
+        ) : null}
+      </button>
+      {onDiscard ? (
+        <button
+          className="tap-board__discard"
+          type="button"
+          aria-label={t('tap.discard', { token: text })}
+          onClick={onDiscard}
+        >
+          ✕
+        </button>
+      ) : null}
+    </li>
+  )
+}
+
+function splitAtLength(fragments: readonly TokenFragment[], length: number): number {
+  let total = 0
+  const index = fragments.findIndex((fragment) => {
+    if (total >= length) {
+      return true
+    }
+
+    total += fragment.indices.length
+    return false
+  })
+
+  return index === -1 ? fragments.length : index
+}
+
+/**
+ * Tap-to-place alternative to dragging. Tapping a fragment in the bank
+ * appends it to the answer line; tapping an unlocked fragment on the answer
+ * line sends it back to the end of the bank. Both lines are slices of the
+ * same fragment list, so evaluation and locking work unchanged. A locked
+ * tail of that list, such as an anchored last token, is shown at the end of
+ * the answer line while the bank keeps its place before it.
+ */
+function TapBoard({
+  fragments,
+  solutionTokens,
+  placedLength,
+  onArrange,
+  highlightedIndex = null,
+  onSpeak,
+  glosses,
+  discarded = [],
+  onDiscard,
+  onRestore,
+}: TapBoardProps) {
+  const { t } = useI18n()
+  const splitIndex = splitAtLength(fragments, placedLength)
+  const tailStart = Math.max(splitIndex, findLockedTailStart(fragments))
+  const answer = fragments.slice(0, splitIndex)
+  const bank = fragments.slice(splitIndex, tailStart)
+  const tail = fragments.slice(tailStart)
+
+  const handlePlace = (fragment: TokenFragment) => {
+    const rest = bank.filter((entry) => entry.id !== fragment.id)
+    onArrange([...answer, fragment, ...rest, ...tail], placedLength + fragment.indices.length)
+  }
+
+  const handleReturn = (fragment: TokenFragment) => {
+    if (fragment.locked) {
+      onSpeak?.(fragment)
+      return
+    }
+
+    const rest = answer.filter((entry) => entry.id !== fragment.id)
+    onArrange([...rest, ...bank, fragment, ...tail], placedLength - fragment.indices.length)
+  }
+
+  const renderFragment = (
+    fragment: TokenFragment,
+    onTap: (fragment: TokenFragment) => void,
+    action: 'tap.place' | 'tap.sendBack',
+    discardable = false,
+  ) => {
+    const text = getFragmentText(fragment, solutionTokens)
+    const label = fragment.locked
+      ? t(onSpeak ? 'token.play' : 'token.locked', { token: text })
+      : t(action, { token: text })
+
+    return (
+      <TapToken
+        key={fragment.id}
+        fragment={fragment}
+        text={text}
+        label={label}
+        hinted={highlightedIndex !== null && fragment.indices.includes(highlightedIndex)}
+        gloss={getFragmentGloss(fragment, solutionTokens, glosses)}
+        disabled={fragment.locked && !onSpeak}
+        onTap={() => onTap(fragment)}
+        onDiscard={discardable && onDiscard ? () => onDiscard(fragment) : undefined}
+      />
+    )
+  }
+
+  return (
+    <div className="tap-board">
+      <ol className="tap-board__answer" aria-label={t('tap.answer')}>
+        {answer.length > 0 || tail.length > 0 ? (
+          [...answer, ...tail].map((fragment) => renderFragment(fragment, handleReturn, 'tap.sendBack'))
+        ) : (
+          <li className="tap-board__placeholder">{t('tap.placeholder')}</li>
+        )}
+      </ol>
+      <ul className="tap-board__bank" aria-label={t('tap.bank')}>
+        {bank.map((fragment) => renderFragment(fragment, handlePlace, 'tap.place', true))}
+      </ul>
+      {onDiscard ? (
+        <DiscardPile
+          fragments={discarded}
+          tokens={solutionTokens}
+          instructions={t('tap.discardInstructions')}
+          onRestore={(fragment) => onRestore?.(fragment)}
+        />
+      ) : null}
+    </div>
+  )
+}
+
+export default TapBoard
@@ -1,6 +1,8 @@
 import { CSS } from '@dnd-kit/utilities'
 import { useSortable } from '@dnd-kit/sortable'
-import type { CSSProperties, HTMLAttributes } from 'react'
+import type { CSSProperties, HTMLAttributes, KeyboardEvent } from 'react'
+import { useLongPress } from '../hooks/useLongPress'
+import { useI18n } from '../i18n/I18nProvider'
 import type { TokenFragment } from '../types'
 import styles from './Token.module.css'
 
@@ -8,9 +10,39 @@ export interface TokenProps {
   fragment: TokenFragment
   text: string
   dropIndicator?: 'before' | 'after' | null
+  /**
+   * Marks the fragment holding the token a hint pointed at.
+   */
+  hinted?: boolean
+  /**
+   * Speaks the fragment when a locked token is tapped.
+   */
+  onSpeak?: () => void
+  /**
+   * Glosses shown on hover, focus or long press.
+   */
+  gloss?: string | null
+  /**
+   * Set while the token is picked up with the keyboard.
+   */
+  selected?: boolean
+  /**
+   * Keyboard handler for unlocked tokens, used to move them.
+   */
+  onKeyDown?: (event: KeyboardEvent<HTMLLIElement>) => void
 }
 
-function Token({ fragment, text, dropIndicator }: TokenProps) {
+function Token({
+  fragment,
+  text,
+  dropIndicator,
+  hinted = false,
+  onSpeak,
+  gloss = null,
+  selected = false,
+  onKeyDown,
+}: TokenProps) {
+  const { t } = useI18n()
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
     id: fragment.id,
     disabled: fragment.locked,
@@ -24,7 +56,21 @@ function Token({ fragment, text, dropIndicator }: TokenProps) {
     transition: isDragging ? undefined : transition,
   }
 
-  const resolvedTabIndex = fragment.locked ? -1 : tabIndex ?? 0
+  // Unlocked tokens start dragging on a long press, and the drag overlay shows their gloss instead.
+  const longPress = useLongPress<HTMLLIElement>(Boolean(gloss) && fragment.locked)
+  const isSpeakable = fragment.locked && Boolean(onSpeak)
+  const resolvedTabIndex = fragment.locked ? (isSpeakable ? 0 : -1) : tabIndex ?? 0
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLLIElement>) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault()
+      onSpeak?.()
+    }
+  }
+
+  const speakProps: HTMLAttributes<HTMLLIElement> | undefined = isSpeakable
+    ? { role: 'button', title: t('token.playPronunciation'), onClick: onSpeak, onKeyDown: handleKeyDown }
+    : undefined
 
   return (
     <li
@@ -33,10 +79,18 @@ function Token({ fragment, text, dropIndicator }: TokenProps) {
       style={style}
       data-locked={fragment.locked ? 'true' : undefined}
       data-dragging={isDragging ? 'true' : undefined}
+      data-hinted={hinted && !fragment.locked ? 'true' : undefined}
+      data-selected={selected ? 'true' : undefined}
+      data-fragment-id={fragment.id}
       tabIndex={resolvedTabIndex}
       aria-disabled={fragment.locked || undefined}
       {...restAttributes}
       {...(fragment.locked ? undefined : listeners)}
+      onKeyDown={fragment.locked ? undefined : onKeyDown}
+      {...speakProps}
+      {...(fragment.locked ? longPress.handlers : undefined)}
+      data-speakable={isSpeakable ? 'true' : undefined}
+      data-gloss-visible={longPress.active ? 'true' : undefined}
     >
       <span
         className={styles.indicator}
@@ -45,6 +99,11 @@ function Token({ fragment, text, dropIndicator }: TokenProps) {
         aria-hidden="true"
       />
       <span className={styles.text}>{text}</span>
+      {gloss ? (
+        <span className={styles.gloss} role="tooltip">
+          {gloss}
+        </span>
+      ) : null}
       <span
         className={styles.indicator}
         data-side="right"
@@ -1,26 +1,28 @@
 import {
   DndContext,
   DragOverlay,
-  KeyboardSensor,
   PointerSensor,
   TouchSensor,
   closestCenter,
+  useDroppable,
   useSensor,
   useSensors,
+  type Announcements,
   type DragEndEvent,
   type DragOverEvent,
   type DragStartEvent,
+  type UniqueIdentifier,
 } from '@dnd-kit/core'
 import { snapCenterToCursor } from '@dnd-kit/modifiers'
-import {
-  SortableContext,
-  arrayMove,
-  horizontalListSortingStrategy,
-  sortableKeyboardCoordinates,
-} from '@dnd-kit/sortable'
-import { useEffect, useMemo, useState } from 'react'
+import { SortableContext, arrayMove, horizontalListSortingStrategy } from '@dnd-kit/sortable'
+import { useEffect, useLayoutEffect, useMemo, useRef, useState, type FocusEvent, type KeyboardEvent } from 'react'
+import { useAnnouncement } from '../hooks/useAnnouncement'
+import { useI18n } from '../i18n/I18nProvider'
+import type { Translate } from '../i18n/translate'
 import type { TokenFragment } from '../types'
-import { getFragmentText } from '../utils/evaluate'
+import { getFragmentGloss, getFragmentText } from '../utils/evaluate'
+import DiscardPile from './DiscardPile'
+import LiveRegion from './LiveRegion'
 import Token from './Token'
 import styles from './Token.module.css'
 
@@ -28,6 +30,43 @@ interface TokenListProps {
   fragments: readonly TokenFragment[]
   solutionTokens: readonly string[]
   onReorder: (next: TokenFragment[]) => void
+  /**
+   * Original token index highlighted by a hint.
+   */
+  highlightedIndex?: number | null
+  onSpeak?: (fragment: TokenFragment) => void
+  glosses?: Readonly<Record<string, string>>
+  /**
+   * Discard area contents. The area is only shown when `onDiscard` is set,
+   * i.e. when the board has distractors.
+   */
+  discarded?: readonly TokenFragment[]
+  onDiscard?: (fragment: TokenFragment) => void
+  onRestore?: (fragment: TokenFragment) => void
+}
+
+const DISCARD_ZONE_ID = 'discard'
+
+interface DiscardZoneProps {
+  fragments: readonly TokenFragment[]
+  tokens: readonly string[]
+  onRestore: (fragment: TokenFragment) => void
+}
+
+function DiscardZone({ fragments, tokens, onRestore }: DiscardZoneProps) {
+  const { t } = useI18n()
+  const { setNodeRef, isOver } = useDroppable({ id: DISCARD_ZONE_ID })
+
+  return (
+    <DiscardPile
+      fragments={fragments}
+      tokens={tokens}
+      instructions={t('discard.dragInstructions')}
+      onRestore={onRestore}
+      dropRef={setNodeRef}
+      active={isOver}
+    />
+  )
 }
 
 type DropIndicator = {
@@ -35,21 +74,221 @@ type DropIndicator = {
   position: 'before' | 'after'
 } | null
 
-function TokenList({ fragments, solutionTokens, onReorder }: TokenListProps) {
+/**
+ * A fragment picked up with the keyboard. `order` previews the line while it
+ * is moved; nothing is committed until it is dropped.
+ */
+type KeyboardMove = {
+  id: string
+  order: TokenFragment[]
+  startIndex: number
+}
+
+function quote(text: string): string {
+  return `'${text}'`
+}
+
+/**
+ * Describes where a fragment ended up, e.g. "'chamo-me' moved after 'Eu',
+ * position 2 of 5".
+ */
+function describeMove(index: number, order: readonly TokenFragment[], tokens: readonly string[], t: Translate) {
+  const token = quote(getFragmentText(order[index], tokens))
+  const position = { position: index + 1, total: order.length }
+
+  return index === 0
+    ? t('keyboard.movedToStart', { token, ...position })
+    : t('keyboard.movedAfter', { token, previous: quote(getFragmentText(order[index - 1], tokens)), ...position })
+}
+
+/**
+ * Target index for a key pressed while a fragment is picked up, or null when
+ * the key does not move it.
+ */
+function getKeyboardTarget(key: string, index: number, length: number): number | null {
+  switch (key) {
+    case 'ArrowLeft':
+    case 'ArrowUp':
+      return Math.max(0, index - 1)
+    case 'ArrowRight':
+    case 'ArrowDown':
+      return Math.min(length - 1, index + 1)
+    case 'Home':
+      return 0
+    case 'End':
+      return length - 1
+    default:
+      return null
+  }
+}
+
+function TokenList({
+  fragments,
+  solutionTokens,
+  onReorder,
+  highlightedIndex = null,
+  onSpeak,
+  glosses,
+  discarded = [],
+  onDiscard,
+  onRestore,
+}: TokenListProps) {
+  const { t } = useI18n()
   const [activeId, setActiveId] = useState<string | null>(null)
   const [indicator, setIndicator] = useState<DropIndicator>(null)
-
+  const [keyboardMove, setKeyboardMove] = useState<KeyboardMove | null>(null)
+  const [announcement, announce] = useAnnouncement()
+  const listRef = useRef<HTMLUListElement>(null)
+  // Token that takes focus once a token discarded with the keyboard has left the line.
+  const focusAfterDiscardRef = useRef<string | null>(null)
+
+  // Keyboard moves are handled below rather than by dnd-kit's keyboard
+  // sensor, which moves by on-screen geometry and reports raw ids.
   const sensors = useSensors(
     useSensor(PointerSensor, { activationConstraint: { distance: 6 } }),
     useSensor(TouchSensor, { activationConstraint: { delay: 150, tolerance: 6 } }),
-    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates }),
   )
 
   useEffect(() => {
     setIndicator(null)
+    setKeyboardMove(null)
   }, [fragments])
 
+  useLayoutEffect(() => {
+    const id = focusAfterDiscardRef.current
+    focusAfterDiscardRef.current = null
+    if (id) {
+      listRef.current?.querySelector<HTMLElement>(`[data-fragment-id="${id}"]`)?.focus()
+    }
+  }, [fragments])
+
+  const displayedFragments = keyboardMove?.order ?? fragments
+
+  // Reordering the list can move the focused token out of the document
+  // for a moment; keep focus on the token being moved.
+  useLayoutEffect(() => {
+    if (!keyboardMove) {
+      return
+    }
+
+    const element = listRef.current?.querySelector<HTMLElement>(`[data-fragment-id="${keyboardMove.id}"]`)
+    if (element && document.activeElement !== element) {
+      element.focus()
+    }
+  }, [keyboardMove])
+
+  const getText = (id: UniqueIdentifier) => {
+    const fragment = fragments.find((candidate) => candidate.id === id)
+    return fragment ? quote(getFragmentText(fragment, solutionTokens)) : t('token.fallback')
+  }
+
+  const announcements: Announcements = {
+    onDragStart: ({ active }) => t('drag.pickedUp', { token: getText(active.id) }),
+    onDragOver: ({ active, over }) => {
+      if (!over) {
+        return t('drag.overNothing', { token: getText(active.id) })
+      }
+
+      return over.id === DISCARD_ZONE_ID
+        ? t('drag.overDiscard', { token: getText(active.id) })
+        : t('drag.over', { token: getText(active.id), target: getText(over.id) })
+    },
+    // Drops are announced by handleDragEnd, which knows the final position.
+    onDragEnd: () => undefined,
+    onDragCancel: ({ active }) => t('drag.cancelled', { token: getText(active.id) }),
+  }
+
+  const cancelKeyboardMove = (move: KeyboardMove) => {
+    setKeyboardMove(null)
+    announce(
+      t('keyboard.cancelled', { token: getText(move.id), position: move.startIndex + 1, total: fragments.length }),
+    )
+  }
+
+  const dropKeyboardMove = (move: KeyboardMove) => {
+    const index = move.order.findIndex((candidate) => candidate.id === move.id)
+    setKeyboardMove(null)
+    if (index === move.startIndex) {
+      announce(t('keyboard.droppedInPlace', { token: getText(move.id) }))
+      return
+    }
+
+    announce(`${describeMove(index, move.order, solutionTokens, t)}. ${t('keyboard.dropped')}`)
+    onReorder(move.order)
+  }
+
+  const handleTokenKeyDown = (event: KeyboardEvent<HTMLLIElement>, fragment: TokenFragment) => {
+    if (fragment.locked || event.target !== event.currentTarget) {
+      return
+    }
+
+    const token = quote(getFragmentText(fragment, solutionTokens))
+    if (!keyboardMove || keyboardMove.id !== fragment.id) {
+      if (event.key === ' ') {
+        event.preventDefault()
+        const startIndex = fragments.findIndex((candidate) => candidate.id === fragment.id)
+        setKeyboardMove({ id: fragment.id, order: Array.from(fragments), startIndex })
+        announce(
+          `${t('keyboard.pickedUp', { token, position: startIndex + 1, total: fragments.length })} ` +
+            t('keyboard.moveHelp') +
+            (onDiscard ? ` ${t('keyboard.discardHelp')}` : ''),
+        )
+      }
+      return
+    }
+
+    if (onDiscard && (event.key === 'Delete' || event.key === 'Backspace')) {
+      event.preventDefault()
+      const index = fragments.findIndex((candidate) => candidate.id === fragment.id)
+      const neighbour =
+        fragments.slice(index + 1).find((candidate) => !candidate.locked) ??
+        fragments.slice(0, index).reverse().find((candidate) => !candidate.locked)
+      focusAfterDiscardRef.current = neighbour?.id ?? null
+      setKeyboardMove(null)
+      announce(t('drag.discarded', { token }))
+      onDiscard(fragment)
+      return
+    }
+
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault()
+      dropKeyboardMove(keyboardMove)
+      return
+    }
+
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      cancelKeyboardMove(keyboardMove)
+      return
+    }
+
+    const index = keyboardMove.order.findIndex((candidate) => candidate.id === fragment.id)
+    const target = getKeyboardTarget(event.key, index, keyboardMove.order.length)
+    if (target === null) {
+      return
+    }
+
+    event.preventDefault()
+    if (target === index) {
+      announce(t('keyboard.alreadyAt', { token, position: index + 1, total: keyboardMove.order.length }))
+      return
+    }
+
+    const order = arrayMove(keyboardMove.order, index, target)
+    setKeyboardMove({ ...keyboardMove, order })
+    announce(describeMove(target, order, solutionTokens, t))
+  }
+
+  // Leaving the list puts a picked-up token back where it was.
+  const handleListBlur = (event: FocusEvent<HTMLUListElement>) => {
+    const next = event.relatedTarget
+    if (keyboardMove && next instanceof Node && !event.currentTarget.contains(next)) {
+      cancelKeyboardMove(keyboardMove)
+    }
+  }
+
   const handleDragStart = (event: DragStartEvent) => {
+    setKeyboardMove(null)
     setActiveId(event.active.id as string)
   }
 
@@ -124,12 +363,21 @@ function TokenList({ fragments, solutionTokens, onReorder }: TokenListProps) {
   }
 
   const handleDragEnd = (event: DragEndEvent) => {
-    const { active } = event
+    const { active, over } = event
     const finalIndicator = indicator
 
     setActiveId(null)
     setIndicator(null)
 
+    if (onDiscard && over?.id === DISCARD_ZONE_ID) {
+      const fragment = fragments.find((candidate) => candidate.id === active.id)
+      if (fragment && !fragment.locked) {
+        announce(t('drag.discarded', { token: quote(getFragmentText(fragment, solutionTokens)) }))
+        onDiscard(fragment)
+      }
+      return
+    }
+
     if (!finalIndicator) {
       return
     }
@@ -157,6 +405,7 @@ function TokenList({ fragments, solutionTokens, onReorder }: TokenListProps) {
 
     const currentFragments = Array.from(fragments)
     const reordered = arrayMove(currentFragments, oldIndex, newIndex)
+    announce(`${describeMove(newIndex, reordered, solutionTokens, t)}.`)
     onReorder(reordered)
   }
 
@@ -173,6 +422,8 @@ function TokenList({ fragments, solutionTokens, onReorder }: TokenListProps) {
     return getFragmentText(activeFragment, solutionTokens)
   }, [activeFragment, solutionTokens])
 
+  const activeGloss = activeFragment ? getFragmentGloss(activeFragment, solutionTokens, glosses) : null
+
   return (
     <DndContext
       sensors={sensors}
@@ -182,16 +433,37 @@ function TokenList({ fragments, solutionTokens, onReorder }: TokenListProps) {
       onDragOver={handleDragOver}
       onDragCancel={handleDragCancel}
       onDragEnd={handleDragEnd}
+      accessibility={{ announcements, screenReaderInstructions: { draggable: t('keyboard.instructions') } }}
     >
-      <SortableContext items={fragments.map((fragment) => fragment.id)} strategy={horizontalListSortingStrategy}>
-        <ul className="workspace__tokens" aria-live="polite">
-          {fragments.map((fragment) => {
+      <SortableContext
+        items={displayedFragments.map((fragment) => fragment.id)}
+        strategy={horizontalListSortingStrategy}
+      >
+        <ul ref={listRef} className="workspace__tokens" onBlur={handleListBlur}>
+          {displayedFragments.map((fragment) => {
             const text = getFragmentText(fragment, solutionTokens)
             const dropIndicator = indicator && indicator.targetId === fragment.id ? indicator.position : null
-            return <Token key={fragment.id} fragment={fragment} text={text} dropIndicator={dropIndicator} />
+            const hinted = highlightedIndex !== null && fragment.indices.includes(highlightedIndex)
+            return (
+              <Token
+                key={fragment.id}
+                fragment={fragment}
+                text={text}
+                dropIndicator={dropIndicator}
+                hinted={hinted}
+                onSpeak={onSpeak ? () => onSpeak(fragment) : undefined}
+                gloss={getFragmentGloss(fragment, solutionTokens, glosses)}
+                selected={keyboardMove?.id === fragment.id}
+                onKeyDown={(event) => handleTokenKeyDown(event, fragment)}
+              />
+            )
           })}
         </ul>
       </SortableContext>
+      <LiveRegion announcement={announcement} />
+      {onDiscard ? (
+        <DiscardZone fragments={discarded} tokens={solutionTokens} onRestore={(fragment) => onRestore?.(fragment)} />
+      ) : null}
       <DragOverlay dropAnimation={null}>
         {activeFragment ? (
           <div
@@ -201,6 +473,7 @@ function TokenList({ fragments, solutionTokens, onReorder }: TokenListProps) {
             data-overlay="true"
           >
             <span className={styles.text}>{activeText}</span>
+            {activeGloss ? <span className={styles.overlayGloss}>{activeGloss}</span> : null}
           </div>
         ) : null}
       </DragOverlay>
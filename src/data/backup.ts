@@ -0,0 +1,658 @@
+import type { Locale } from '../i18n/messages'
+import { isLocale, TranslatableError, type MessageDescriptor, type Translate } from '../i18n/translate'
+import type { CustomProblemPack, InputMode, ThemePreference, TokenFragment } from '../types'
+import type { AttemptRecord, HistoryStore, ProblemHistory } from '../utils/analytics'
+import {
+  CHALLENGE_MODES,
+  createBestKey,
+  recordPersonalBest,
+  type ChallengeMode,
+  type PersonalBest,
+  type PersonalBestStore,
+} from '../utils/challenge'
+import type { Difficulty } from '../utils/difficulty'
+import type { HintKind } from '../utils/hints'
+import type { ReviewLogEntry, ReviewRecord, ReviewStore } from '../utils/scheduler'
+import type { ArrangementSnapshot, ProblemProgress, SessionState } from '../utils/session'
+import { isThemePreference } from '../utils/theme'
+import { isProblem, normalizeProblems, ProblemSetError } from './problems'
+import {
+  BESTS_STORAGE_KEY,
+  CUSTOM_PACK_ID_PREFIX,
+  CUSTOM_PACKS_STORAGE_KEY,
+  getCustomPackId,
+  getPackStorageKey,
+  HISTORY_STORAGE_KEY,
+  INPUT_MODE_STORAGE_KEY,
+  isLegacySessionKey,
+  LISTENING_STORAGE_KEY,
+  LOCALE_STORAGE_KEY,
+  PACK_HASHES_STORAGE_KEY,
+  PACK_SCOPED_KEYS,
+  PACK_STORAGE_KEY,
+  REVIEWS_STORAGE_KEY,
+  SESSION_STORAGE_KEY,
+  THEME_STORAGE_KEY,
+} from './storage'
+
+const BACKUP_APP = 'portuguese-reorder'
+export const BACKUP_VERSION = 1
+
+export interface BackupPreferences {
+  inputMode?: InputMode
+  listening?: boolean
+  selectedPackId?: string | null
+  locale?: Locale
+  theme?: ThemePreference
+}
+
+/**
+ * A pack's challenge personal bests, per mode.
+ */
+export type PackBests = Partial<Record<ChallengeMode, PersonalBest[]>>
+
+/**
+ * Everything recorded for one pack.
+ */
+export interface PackBackup {
+  packId: string
+  /**
+   * Problem-set hash the data was recorded against, or null when the pack
+   * has not been loaded since hashes were tracked.
+   */
+  hash: string | null
+  session: SessionState | null
+  reviews: ReviewStore
+  history: HistoryStore
+  /**
+   * Missing from backups made before personal bests were included.
+   */
+  bests?: PackBests
+  /**
+   * Epoch milliseconds of the latest attempt, review, problem shown or
+   * challenge run.
+   */
+  lastActivity: number | null
+}
+
+export interface ProgressBackup {
+  app: typeof BACKUP_APP
+  version: number
+  exportedAt: number
+  preferences: BackupPreferences
+  customPacks: CustomProblemPack[]
+  packs: PackBackup[]
+}
+
+/**
+ * Raised when a file is not a backup this version of the app can read.
+ * `detail` is the error that made part of it unreadable, when there is one.
+ */
+export class BackupError extends TranslatableError {
+  readonly detail: TranslatableError | null
+
+  constructor(description: MessageDescriptor, detail: TranslatableError | null = null) {
+    super(description)
+    this.name = 'BackupError'
+    this.detail = detail
+    this.updateMessage()
+  }
+
+  translate(t: Translate): string {
+    const message = super.translate(t)
+    return this.detail ? `${message} ${this.detail.translate(t)}` : message
+  }
+}
+
+function readJson<T>(storage: Storage, key: string): T | null {
+  try {
+    const raw = storage.getItem(key)
+    return raw === null ? null : (JSON.parse(raw) as T)
+  } catch {
+    return null
+  }
+}
+
+function writeJson(storage: Storage, key: string, value: unknown) {
+  storage.setItem(key, JSON.stringify(value))
+}
+
+function latest(values: ReadonlyArray<number | null | undefined>): number | null {
+  return values.reduce<number | null>(
+    (result, value) => (typeof value === 'number' && (result === null || value > result) ? value : result),
+    null,
+  )
+}
+
+function getHistoryActivity(history: ProblemHistory | undefined): number | null {
+  return latest(history?.attempts.map((attempt) => attempt.at) ?? [])
+}
+
+function getReviewActivity(review: ReviewRecord | undefined): number | null {
+  return latest(review?.history.map((entry) => entry.reviewedAt) ?? [])
+}
+
+function getSessionActivity(session: SessionState | null): number | null {
+  return latest(Object.values(session?.progress ?? {}).map((entry) => entry.startedAt))
+}
+
+function getBestsActivity(bests: PackBests | undefined): number | null {
+  return latest(Object.values(bests ?? {}).flatMap((entries) => entries.map((entry) => entry.achievedAt)))
+}
+
+function getPackActivity({
+  session,
+  reviews,
+  history,
+  bests,
+}: Pick<PackBackup, 'session' | 'reviews' | 'history' | 'bests'>) {
+  return latest([
+    getSessionActivity(session),
+    ...Object.values(reviews).map(getReviewActivity),
+    ...Object.values(history).map(getHistoryActivity),
+    getBestsActivity(bests),
+  ])
+}
+
+function listStoredPackIds(storage: Storage): string[] {
+  const ids = new Set<string>()
+  for (let index = 0; index < storage.length; index += 1) {
+    const key = storage.key(index)
+    const prefix = PACK_SCOPED_KEYS.find((scoped) => key?.startsWith(`${scoped}:`))
+    if (key && prefix && !isLegacySessionKey(key)) {
+      ids.add(key.slice(prefix.length + 1))
+    }
+  }
+
+  // A pack may only have been played in challenges.
+  Object.keys(readJson<PersonalBestStore>(storage, BESTS_STORAGE_KEY) ?? {}).forEach((key) => {
+    const mode = CHALLENGE_MODES.find((candidate) => key.startsWith(`${candidate}:`))
+    if (mode) {
+      ids.add(key.slice(mode.length + 1))
+    }
+  })
+
+  return [...ids].sort()
+}
+
+function readPackBests(storage: Storage, packId: string): PackBests {
+  const store = readJson<PersonalBestStore>(storage, BESTS_STORAGE_KEY) ?? {}
+  const bests: PackBests = {}
+  CHALLENGE_MODES.forEach((mode) => {
+    const entries = store[createBestKey(mode, packId)]
+    if (entries) {
+      bests[mode] = entries
+    }
+  })
+
+  return bests
+}
+
+function readPack(storage: Storage, packId: string, hashes: Record<string, string>): PackBackup {
+  const pack = {
+    session: readJson<SessionState>(storage, getPackStorageKey(SESSION_STORAGE_KEY, packId)),
+    reviews: readJson<ReviewStore>(storage, getPackStorageKey(REVIEWS_STORAGE_KEY, packId)) ?? {},
+    history: readJson<HistoryStore>(storage, getPackStorageKey(HISTORY_STORAGE_KEY, packId)) ?? {},
+    bests: readPackBests(storage, packId),
+  }
+
+  return { packId, hash: hashes[packId] ?? null, ...pack, lastActivity: getPackActivity(pack) }
+}
+
+function isInputMode(value: unknown): value is InputMode {
+  return value === 'drag' || value === 'tap'
+}
+
+/**
+ * Keeps only the preferences that hold a value the app accepts. Anything
+ * else is dropped, so that setting is left as it is.
+ */
+function normalizePreferences(values: Record<string, unknown>): BackupPreferences {
+  const { inputMode, listening, selectedPackId, locale, theme } = values
+  const preferences: BackupPreferences = {}
+
+  if (isInputMode(inputMode)) {
+    preferences.inputMode = inputMode
+  }
+
+  if (typeof listening === 'boolean') {
+    preferences.listening = listening
+  }
+
+  if (selectedPackId === null || (typeof selectedPackId === 'string' && selectedPackId !== '')) {
+    preferences.selectedPackId = selectedPackId
+  }
+
+  if (isLocale(locale)) {
+    preferences.locale = locale
+  }
+
+  if (isThemePreference(theme)) {
+    preferences.theme = theme
+  }
+
+  return preferences
+}
+
+function readPreferences(storage: Storage): BackupPreferences {
+  const { selectedPackId, ...preferences } = normalizePreferences({
+    inputMode: readJson<unknown>(storage, INPUT_MODE_STORAGE_KEY),
+    listening: readJson<unknown>(storage, LISTENING_STORAGE_KEY),
+    selectedPackId: readJson<unknown>(storage, PACK_STORAGE_KEY),
+    locale: readJson<unknown>(storage, LOCALE_STORAGE_KEY),
+    theme: readJson<unknown>(storage, THEME_STORAGE_KEY),
+  })
+
+  // A missing key also reads as null, so an empty selection is not backed up.
+  return selectedPackId === null ? preferences : { ...preferences, selectedPackId }
+}
+
+/**
+ * Collects every pack's progress, the imported packs and the preferences
+ * from storage.
+ */
+export function createBackup(storage: Storage, now: number): ProgressBackup {
+  const hashes = readJson<Record<string, string>>(storage, PACK_HASHES_STORAGE_KEY) ?? {}
+
+  return {
+    app: BACKUP_APP,
+    version: BACKUP_VERSION,
+    exportedAt: now,
+    preferences: readPreferences(storage),
+    customPacks: readJson<CustomProblemPack[]>(storage, CUSTOM_PACKS_STORAGE_KEY) ?? [],
+    packs: listStoredPackIds(storage).map((packId) => readPack(storage, packId, hashes)),
+  }
+}
+
+export function getBackupFileName(now: number): string {
+  return `portuguese-reorder-backup-${new Date(now).toISOString().slice(0, 10)}.json`
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string'
+}
+
+function isNullableNumber(value: unknown): value is number | null {
+  return value === null || isNumber(value)
+}
+
+function isArrayOf<T>(value: unknown, isEntry: (entry: unknown) => entry is T): value is T[] {
+  return Array.isArray(value) && value.every(isEntry)
+}
+
+function isRecordOf<T>(value: unknown, isEntry: (entry: unknown) => entry is T): value is Record<string, T> {
+  return isRecord(value) && Object.values(value).every(isEntry)
+}
+
+/**
+ * Fields added to the stored data over time may be missing, so backups made
+ * by older versions of the app are still accepted.
+ */
+function isOptional<T>(value: unknown, isValue: (value: unknown) => value is T): value is T | undefined {
+  return value === undefined || isValue(value)
+}
+
+function isFragment(value: unknown): value is TokenFragment {
+  return (
+    isRecord(value) && isString(value.id) && isArrayOf(value.indices, isNumber) && typeof value.locked === 'boolean'
+  )
+}
+
+function isSnapshot(value: unknown): value is ArrangementSnapshot {
+  return (
+    isRecord(value) &&
+    isArrayOf(value.fragments, isFragment) &&
+    isNumber(value.placedTokens) &&
+    isOptional(value.discarded, (discarded) => isArrayOf(discarded, isFragment))
+  )
+}
+
+function isHintKind(value: unknown): value is HintKind {
+  return value === 'note' || value === 'highlight' || value === 'place'
+}
+
+function isDifficulty(value: unknown): value is Difficulty {
+  return value === 'easy' || value === 'normal' || value === 'hard'
+}
+
+function isProblemProgress(value: unknown): value is ProblemProgress {
+  return (
+    isRecord(value) &&
+    isString(value.fingerprint) &&
+    isArrayOf(value.fragments, isFragment) &&
+    typeof value.solved === 'boolean' &&
+    isNumber(value.attempts) &&
+    isNullableNumber(value.startedAt) &&
+    isOptional(value.hints, (hints) => isArrayOf(hints, isHintKind)) &&
+    isOptional(value.highlightedIndex, isNullableNumber) &&
+    isOptional(value.placedTokens, isNumber) &&
+    isOptional(value.distractors, (distractors) => isArrayOf(distractors, isString)) &&
+    isOptional(value.discarded, (discarded) => isArrayOf(discarded, isFragment)) &&
+    isOptional(value.past, (past) => isArrayOf(past, isSnapshot)) &&
+    isOptional(value.future, (future) => isArrayOf(future, isSnapshot))
+  )
+}
+
+function isSessionState(value: unknown): value is SessionState {
+  return (
+    isRecord(value) &&
+    (value.current === null || isString(value.current)) &&
+    isArrayOf(value.queue, isString) &&
+    isArrayOf(value.scheduled, isString) &&
+    isRecordOf(value.progress, isProblemProgress) &&
+    isString(value.seed) &&
+    isOptional(value.tags, (tags) => isArrayOf(tags, isString)) &&
+    isOptional(value.difficulty, isDifficulty)
+  )
+}
+
+function isReviewLogEntry(value: unknown): value is ReviewLogEntry {
+  return isRecord(value) && isNumber(value.reviewedAt) && isNumber(value.grade) && isNumber(value.interval)
+}
+
+function isReviewRecord(value: unknown): value is ReviewRecord {
+  return (
+    isRecord(value) &&
+    isNumber(value.ease) &&
+    isNumber(value.interval) &&
+    isNumber(value.repetitions) &&
+    isNumber(value.due) &&
+    isNumber(value.lapses) &&
+    isArrayOf(value.history, isReviewLogEntry)
+  )
+}
+
+function isAttemptRecord(value: unknown): value is AttemptRecord {
+  return (
+    isRecord(value) &&
+    isNumber(value.at) &&
+    isNumber(value.lockedCount) &&
+    isNumber(value.totalTokens) &&
+    isArrayOf(value.misplaced, isNumber)
+  )
+}
+
+function isProblemHistory(value: unknown): value is ProblemHistory {
+  return (
+    isRecord(value) &&
+    isArrayOf(value.attempts, isAttemptRecord) &&
+    isArrayOf(value.solveTimes, isNumber) &&
+    isNumber(value.skips) &&
+    isOptional(value.hints, isNumber) &&
+    isOptional(value.hintedSolves, isNumber)
+  )
+}
+
+function isPersonalBest(value: unknown): value is PersonalBest {
+  return (
+    isRecord(value) &&
+    isNumber(value.score) &&
+    isNumber(value.attempts) &&
+    isNumber(value.achievedAt) &&
+    isNumber(value.duration)
+  )
+}
+
+function isPackBests(value: unknown): value is PackBests {
+  return (
+    isRecord(value) &&
+    Object.entries(value).every(
+      ([mode, entries]) =>
+        (CHALLENGE_MODES as readonly string[]).includes(mode) && isArrayOf(entries, isPersonalBest),
+    )
+  )
+}
+
+function isPackBackup(value: unknown): value is PackBackup {
+  return (
+    isRecord(value) &&
+    typeof value.packId === 'string' &&
+    value.packId !== '' &&
+    (value.hash === null || typeof value.hash === 'string') &&
+    (value.session === null || isSessionState(value.session)) &&
+    isRecordOf(value.reviews, isReviewRecord) &&
+    isRecordOf(value.history, isProblemHistory) &&
+    isOptional(value.bests, isPackBests) &&
+    isNullableNumber(value.lastActivity)
+  )
+}
+
+function isCustomPack(value: unknown): value is CustomProblemPack {
+  return (
+    isRecord(value) &&
+    typeof value.id === 'string' &&
+    typeof value.title === 'string' &&
+    isArrayOf(value.problems, isProblem)
+  )
+}
+
+/**
+ * Imported packs get the same checks as on import, so a pack the app could
+ * not practise is never stored.
+ */
+function normalizeCustomPack(pack: CustomProblemPack): CustomProblemPack {
+  try {
+    return { ...pack, problems: normalizeProblems(pack.problems) }
+  } catch (error) {
+    if (error instanceof ProblemSetError) {
+      throw new BackupError({ key: 'backup.invalidPack', params: { pack: pack.title } }, error)
+    }
+
+    throw error
+  }
+}
+
+/**
+ * Backups made before imported packs had prefixed ids name them, and their
+ * progress, by the bare problem-set hash.
+ */
+function upgradeCustomPackIds(backup: ProgressBackup): ProgressBackup {
+  const renamed = new Map(
+    backup.customPacks
+      .filter((pack) => !pack.id.startsWith(CUSTOM_PACK_ID_PREFIX))
+      .map((pack) => [pack.id, getCustomPackId(pack.id)]),
+  )
+  if (renamed.size === 0) {
+    return backup
+  }
+
+  const rename = (packId: string) => renamed.get(packId) ?? packId
+  const { preferences } = backup
+
+  return {
+    ...backup,
+    preferences: preferences.selectedPackId
+      ? { ...preferences, selectedPackId: rename(preferences.selectedPackId) }
+      : preferences,
+    customPacks: backup.customPacks.map((pack) => ({ ...pack, id: rename(pack.id) })),
+    packs: backup.packs.map((pack) => ({ ...pack, packId: rename(pack.packId) })),
+  }
+}
+
+/**
+ * Reads a backup file, rejecting anything that is not a backup or was
+ * written by a newer version of the app.
+ */
+export function parseBackup(text: string): ProgressBackup {
+  let payload: unknown
+  try {
+    payload = JSON.parse(text) as unknown
+  } catch {
+    throw new BackupError({ key: 'backup.notJson' })
+  }
+
+  if (!isRecord(payload) || payload.app !== BACKUP_APP || typeof payload.version !== 'number') {
+    throw new BackupError({ key: 'backup.notBackup' })
+  }
+
+  if (payload.version > BACKUP_VERSION) {
+    throw new BackupError({ key: 'backup.newerVersion' })
+  }
+
+  if (
+    typeof payload.exportedAt !== 'number' ||
+    !isRecord(payload.preferences) ||
+    !Array.isArray(payload.customPacks) ||
+    !payload.customPacks.every(isCustomPack) ||
+    !Array.isArray(payload.packs) ||
+    !payload.packs.every(isPackBackup)
+  ) {
+    throw new BackupError({ key: 'backup.damaged' })
+  }
+
+  const backup = payload as unknown as ProgressBackup
+  return upgradeCustomPackIds({
+    ...backup,
+    preferences: normalizePreferences(payload.preferences),
+    customPacks: backup.customPacks.map(normalizeCustomPack),
+  })
+}
+
+export type PackMatch = 'matched' | 'unknown-pack' | 'different-problems'
+
+/**
+ * Checks a backed-up pack against the packs on this device. `knownHashes`
+ * maps every local pack id to the problem-set hash it was last loaded with,
+ * or null when that is not known. Data recorded against another problem set
+ * is only imported when the learner maps it onto a local pack.
+ */
+export function matchPack(pack: PackBackup, knownHashes: ReadonlyMap<string, string | null>): PackMatch {
+  if (!knownHashes.has(pack.packId)) {
+    return 'unknown-pack'
+  }
+
+  const localHash = knownHashes.get(pack.packId) ?? null
+  return pack.hash !== null && localHash !== null && pack.hash !== localHash ? 'different-problems' : 'matched'
+}
+
+function mergeByActivity<T>(
+  local: Record<string, T>,
+  incoming: Record<string, T>,
+  getActivity: (entry: T | undefined) => number | null,
+): Record<string, T> {
+  const merged = { ...local }
+  Object.entries(incoming).forEach(([id, entry]) => {
+    if ((getActivity(entry) ?? 0) > (getActivity(local[id]) ?? 0) || local[id] === undefined) {
+      merged[id] = entry
+    }
+  })
+
+  return merged
+}
+
+/**
+ * Adds a pack's backed-up personal bests to the local ones. A run already
+ * recorded locally is not counted twice.
+ */
+function mergeBests(store: PersonalBestStore, packId: string, incoming: PackBests): PersonalBestStore {
+  return CHALLENGE_MODES.reduce((merged, mode) => {
+    const key = createBestKey(mode, packId)
+    return (incoming[mode] ?? [])
+      .filter((entry) => !merged[key]?.some((local) => local.achievedAt === entry.achievedAt))
+      .reduce((result, entry) => recordPersonalBest(result, key, entry), merged)
+  }, store)
+}
+
+export interface RestoreSummary {
+  packs: number
+  customPacks: number
+  preferences: boolean
+}
+
+/**
+ * Merges a backup into storage. `targets` maps each backed-up pack id to the
+ * local pack that receives its data, or null to skip it. Per problem, the
+ * history and review record with the most recent activity win; a pack's
+ * session is replaced when the backup's session was active more recently,
+ * and personal bests are combined.
+ * Preferences are taken from the backup when it holds newer activity than
+ * anything on this device.
+ */
+export function restoreBackup(
+  storage: Storage,
+  backup: ProgressBackup,
+  targets: Readonly<Record<string, string | null>>,
+): RestoreSummary {
+  const localPacks = readJson<CustomProblemPack[]>(storage, CUSTOM_PACKS_STORAGE_KEY) ?? []
+  const localIds = new Set(localPacks.map((pack) => pack.id))
+  const addedPacks = backup.customPacks.filter((pack) => !localIds.has(pack.id))
+  if (addedPacks.length > 0) {
+    writeJson(storage, CUSTOM_PACKS_STORAGE_KEY, [...localPacks, ...addedPacks])
+  }
+
+  const hashes = readJson<Record<string, string>>(storage, PACK_HASHES_STORAGE_KEY) ?? {}
+  const localActivity = latest(
+    listStoredPackIds(storage).map((packId) => readPack(storage, packId, hashes).lastActivity),
+  )
+  let restoredPacks = 0
+
+  backup.packs.forEach((pack) => {
+    const targetId = targets[pack.packId]
+    if (!targetId) {
+      return
+    }
+
+    const local = readPack(storage, targetId, hashes)
+    writeJson(
+      storage,
+      getPackStorageKey(HISTORY_STORAGE_KEY, targetId),
+      mergeByActivity(local.history, pack.history, getHistoryActivity),
+    )
+    writeJson(
+      storage,
+      getPackStorageKey(REVIEWS_STORAGE_KEY, targetId),
+      mergeByActivity(local.reviews, pack.reviews, getReviewActivity),
+    )
+
+    if (pack.session && (getSessionActivity(pack.session) ?? 0) > (getSessionActivity(local.session) ?? 0)) {
+      writeJson(storage, getPackStorageKey(SESSION_STORAGE_KEY, targetId), pack.session)
+    }
+
+    if (pack.bests) {
+      const bests = readJson<PersonalBestStore>(storage, BESTS_STORAGE_KEY) ?? {}
+      writeJson(storage, BESTS_STORAGE_KEY, mergeBests(bests, targetId, pack.bests))
+    }
+
+    restoredPacks += 1
+  })
+
+  const backupActivity = latest(backup.packs.map((pack) => pack.lastActivity))
+  const takePreferences = backupActivity !== null && (localActivity === null || backupActivity > localActivity)
+  if (takePreferences) {
+    const { inputMode, listening, selectedPackId, locale, theme } = backup.preferences
+    if (inputMode !== undefined) {
+      writeJson(storage, INPUT_MODE_STORAGE_KEY, inputMode)
+    }
+
+    if (locale !== undefined) {
+      writeJson(storage, LOCALE_STORAGE_KEY, locale)
+    }
+
+    if (theme !== undefined) {
+      writeJson(storage, THEME_STORAGE_KEY, theme)
+    }
+
+    if (listening !== undefined) {
+      writeJson(storage, LISTENING_STORAGE_KEY, listening)
+    }
+
+    // The selected pack follows its mapping; a skipped pack keeps the local selection.
+    const selectedTarget =
+      selectedPackId === null || selectedPackId === undefined
+        ? selectedPackId
+        : targets[selectedPackId] ?? (addedPacks.some((pack) => pack.id === selectedPackId) ? selectedPackId : null)
+    if (selectedTarget !== undefined && (selectedTarget !== null || selectedPackId === null)) {
+      writeJson(storage, PACK_STORAGE_KEY, selectedTarget)
+    }
+  }
+
+  return { packs: restoredPacks, customPacks: addedPacks.length, preferences: takePreferences }
+}
@@ -0,0 +1,243 @@
+/**
+ * Line-oriented problem formats. Both parsers produce raw problem objects
+ * tagged with the line they started on; validation is left to
+ * `normalizeProblems` so every format reports errors the same way.
+ *
+ * Plain text: a sentence line followed by its note line. `|` marks token
+ * boundaries; a sentence without any `|` is split on whitespace. Blank lines
+ * and lines starting with `#` are ignored between problems.
+ *
+ *     Olá! | Chamo-me | Ana.
+ *     chamo-me: first person singular
+ *
+ * CSV: `sentence,note` columns with an optional header row and optional
+ * `id`, `translation`, `tags` and `distractors` columns; tags and distractors
+ * are separated by spaces or semicolons. Fields follow RFC 4180 quoting.
+ */
+
+import type { MessageDescriptor } from '../i18n/translate'
+
+export type ProblemFormat = 'json' | 'text' | 'csv'
+
+export interface SourceEntry {
+  line: number
+  value: Record<string, unknown>
+}
+
+export interface SourceIssue {
+  line: number
+  message: MessageDescriptor
+}
+
+export interface SourceParseResult {
+  entries: SourceEntry[]
+  issues: SourceIssue[]
+}
+
+export function splitSentence(sentence: string): string[] {
+  const parts = sentence.includes('|') ? sentence.split('|') : sentence.split(/\s+/)
+  return parts.map((part) => part.trim().replace(/\s+/g, ' ')).filter((part) => part !== '')
+}
+
+function isSkippableLine(line: string): boolean {
+  const trimmed = line.trim()
+  return trimmed === '' || trimmed.startsWith('#')
+}
+
+export function parseTextSource(text: string): SourceParseResult {
+  const lines = text.split(/\r?\n/)
+  const entries: SourceEntry[] = []
+  const issues: SourceIssue[] = []
+
+  let index = 0
+  while (index < lines.length) {
+    if (isSkippableLine(lines[index])) {
+      index += 1
+      continue
+    }
+
+    const sentenceLine = index + 1
+    const sentence = lines[index]
+    const note = lines[index + 1]
+
+    if (note === undefined || note.trim() === '') {
+      issues.push({ line: sentenceLine, message: { key: 'problems.missingNote' } })
+      index += 1
+      continue
+    }
+
+    entries.push({ line: sentenceLine, value: { tokens: splitSentence(sentence), note: note.trim() } })
+    index += 2
+  }
+
+  return { entries, issues }
+}
+
+interface CsvRecord {
+  line: number
+  fields: string[]
+}
+
+function readCsvRecords(text: string): { records: CsvRecord[]; issues: SourceIssue[] } {
+  const records: CsvRecord[] = []
+  const issues: SourceIssue[] = []
+
+  let fields: string[] = []
+  let field = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+
+  const endRecord = () => {
+    fields.push(field)
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      records.push({ line: recordLine, fields })
+    }
+    fields = []
+    field = ''
+  }
+
+  for (let position = 0; position < text.length; position += 1) {
+    const character = text[position]
+
+    if (quoted) {
+      if (character === '"' && text[position + 1] === '"') {
+        field += '"'
+        position += 1
+      } else if (character === '"') {
+        quoted = false
+      } else {
+        if (character === '\n') {
+          line += 1
+        }
+        field += character
+      }
+      continue
+    }
+
+    if (character === '"' && field.trim() === '') {
+      field = ''
+      quoted = true
+    } else if (character === ',') {
+      fields.push(field)
+      field = ''
+    } else if (character === '\n') {
+      endRecord()
+      line += 1
+      recordLine = line
+    } else if (character !== '\r') {
+      field += character
+    }
+  }
+
+  if (quoted) {
+    issues.push({ line: recordLine, message: { key: 'problems.unclosedQuote' } })
+  } else {
+    endRecord()
+  }
+
+  return { records, issues }
+}
+
+export function parseCsvSource(text: string): SourceParseResult {
+  const { records, issues } = readCsvRecords(text)
+  const entries: SourceEntry[] = []
+
+  const header = records[0]?.fields.map((field) => field.trim().toLowerCase()) ?? []
+  const hasHeader = header.includes('sentence') && header.includes('note')
+  const sentenceColumn = hasHeader ? header.indexOf('sentence') : 0
+  const noteColumn = hasHeader ? header.indexOf('note') : 1
+  const idColumn = hasHeader ? header.indexOf('id') : -1
+  const translationColumn = hasHeader ? header.indexOf('translation') : -1
+  const tagsColumn = hasHeader ? header.indexOf('tags') : -1
+  const distractorsColumn = hasHeader ? header.indexOf('distractors') : -1
+  const readList = (column: number, fields: readonly string[]) =>
+    column >= 0 ? fields[column]?.split(/[\s;]+/).filter((entry) => entry !== '') : undefined
+
+  records.slice(hasHeader ? 1 : 0).forEach(({ line, fields }) => {
+    const sentence = fields[sentenceColumn]
+    const note = fields[noteColumn]
+
+    if (sentence === undefined || note === undefined) {
+      issues.push({ line, message: { key: 'problems.missingColumns' } })
+      return
+    }
+
+    const value: Record<string, unknown> = { tokens: splitSentence(sentence), note: note.trim() }
+    const id = idColumn >= 0 ? fields[idColumn]?.trim() : undefined
+    if (id) {
+      value.id = id
+    }
+
+    const translation = translationColumn >= 0 ? fields[translationColumn]?.trim() : undefined
+    if (translation) {
+      value.translation = translation
+    }
+
+    const tags = readList(tagsColumn, fields)
+    if (tags && tags.length > 0) {
+      value.tags = tags
+    }
+
+    const distractors = readList(distractorsColumn, fields)
+    if (distractors && distractors.length > 0) {
+      value.distractors = distractors
+    }
+
+    entries.push({ line, value })
+  })
+
+  return { entries, issues }
+}
+
+/**
+ * Picks a format from a file name or URL extension, falling back to the
+ * response content type.
+ */
+export function detectFormatFromSource(name: string, contentType = ''): ProblemFormat | null {
+  const path = name.split(/[?#]/)[0].toLowerCase()
+  if (path.endsWith('.json')) {
+    return 'json'
+  }
+
+  if (path.endsWith('.csv')) {
+    return 'csv'
+  }
+
+  if (path.endsWith('.txt')) {
+    return 'text'
+  }
+
+  const type = contentType.split(';')[0].trim().toLowerCase()
+  if (type === 'application/json' || type.endsWith('+json')) {
+    return 'json'
+  }
+
+  if (type === 'text/csv') {
+    return 'csv'
+  }
+
+  if (type === 'text/plain') {
+    return 'text'
+  }
+
+  return null
+}
+
+/**
+ * Guesses the format of pasted text: JSON starts with a bracket, CSV with a
+ * `sentence,note` header, and anything else is treated as plain text.
+ */
+export function detectFormatFromContent(text: string): ProblemFormat {
+  const trimmed = text.trimStart()
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    return 'json'
+  }
+
+  const firstLine = trimmed.split(/\r?\n/, 1)[0].toLowerCase()
+  if (/^"?(id"?\s*,\s*"?)?sentence"?\s*,/.test(firstLine)) {
+    return 'csv'
+  }
+
+  return 'text'
+}
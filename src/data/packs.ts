@@ -0,0 +1,113 @@
+import { TranslatableError, type Translate } from '../i18n/translate'
+import type { CustomProblemPack, ProblemPack, ProblemSet } from '../types'
+import { createProblemSetHash } from './problems'
+import { getCustomPackId, isReservedPackId } from './storage'
+
+const PACKS_URL = `${import.meta.env.BASE_URL}packs.json`
+
+export interface FetchPacksOptions {
+  signal?: AbortSignal
+}
+
+function isProblemPack(value: unknown): value is ProblemPack {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const candidate = value as Record<string, unknown>
+  return (
+    typeof candidate.id === 'string' &&
+    candidate.id.trim() !== '' &&
+    typeof candidate.title === 'string' &&
+    typeof candidate.description === 'string' &&
+    typeof candidate.level === 'string' &&
+    typeof candidate.url === 'string' &&
+    candidate.url.trim() !== ''
+  )
+}
+
+function normalizePacks(data: unknown): ProblemPack[] {
+  if (!Array.isArray(data)) {
+    throw new TranslatableError({ key: 'packs.notArray' })
+  }
+
+  const seenIds = new Set<string>()
+
+  return data.map((item, position) => {
+    if (!isProblemPack(item)) {
+      throw new TranslatableError({ key: 'packs.invalid', params: { position: position + 1 } })
+    }
+
+    const id = item.id.trim()
+    if (isReservedPackId(id)) {
+      throw new TranslatableError({ key: 'packs.reservedId', params: { position: position + 1, id } })
+    }
+
+    if (seenIds.has(id)) {
+      throw new TranslatableError({ key: 'packs.duplicateId', params: { position: position + 1, id } })
+    }
+    seenIds.add(id)
+
+    return {
+      id,
+      title: item.title,
+      description: item.description,
+      level: item.level,
+      url: item.url.trim(),
+    }
+  })
+}
+
+export async function fetchPacks(options: FetchPacksOptions = {}): Promise<ProblemPack[]> {
+  const { signal } = options
+
+  const response = await fetch(PACKS_URL, {
+    headers: { Accept: 'application/json' },
+    signal,
+  })
+
+  if (!response.ok) {
+    throw new TranslatableError({
+      key: 'packs.loadFailed',
+      params: { status: response.status, statusText: response.statusText },
+    })
+  }
+
+  const payload = (await response.json()) as unknown
+  return normalizePacks(payload)
+}
+
+/**
+ * Resolves a pack's problem file against the app's base URL. Absolute URLs
+ * are used as-is.
+ */
+export function resolvePackUrl(pack: ProblemPack): string {
+  if (/^[a-z][a-z\d+.-]*:/i.test(pack.url) || pack.url.startsWith('/')) {
+    return pack.url
+  }
+
+  return `${import.meta.env.BASE_URL}${pack.url}`
+}
+
+/**
+ * Builds an imported pack. Its default title, description and level are
+ * written in the interface language of the moment of import.
+ */
+export function createCustomPack(
+  problems: ProblemSet,
+  title: string,
+  now: number,
+  t: Translate,
+  locale: string,
+): CustomProblemPack {
+  const date = new Date(now).toLocaleDateString(locale)
+
+  return {
+    id: getCustomPackId(createProblemSetHash(problems)),
+    title: title.trim() || t('import.titlePlaceholder'),
+    description: t('packs.customDescription', { count: problems.length, date }),
+    level: t('packs.customLevel'),
+    problems,
+    importedAt: now,
+  }
+}
@@ -1,55 +1,481 @@
-import type { Problem, ProblemSet } from '../types'
+import { formatMessage, TranslatableError, type MessageDescriptor, type Translate } from '../i18n/translate'
+import type { Problem, ProblemSet, SpanSwap, TokenSpan } from '../types'
+import { normalizeTag } from '../utils/tags'
+import {
+  detectFormatFromContent,
+  detectFormatFromSource,
+  parseCsvSource,
+  parseTextSource,
+  type ProblemFormat,
+  type SourceParseResult,
+} from './formats'
 
 const PROBLEMS_URL = `${import.meta.env.BASE_URL}problems.json`
+const MAX_SWAPS_PER_PROBLEM = 6
+
+/**
+ * Headers the service worker sets on problem files it answers from its cache.
+ * See src/service-worker.js.
+ */
+const SERVED_FROM_HEADER = 'X-Served-From'
+const CACHED_AT_HEADER = 'X-Cached-At'
 
 export interface FetchProblemsOptions {
+  /**
+   * Problem file to load. Defaults to the bundled problems.json.
+   */
+  url?: string
   signal?: AbortSignal
 }
 
-function isProblem(value: unknown): value is Problem {
+/**
+ * Where loaded problems came from: the network, or the offline copy the
+ * service worker answered with because the network could not be reached.
+ */
+export type ProblemSource = 'network' | 'cache'
+
+export interface LoadedProblems {
+  problems: ProblemSet
+  source: ProblemSource
+  /**
+   * When the data was downloaded, in epoch milliseconds, or null when an
+   * offline copy does not say.
+   */
+  fetchedAt: number | null
+}
+
+export interface ProblemIssue {
+  /**
+   * Zero-based position of the offending entry, or null when the issue
+   * concerns the payload as a whole.
+   */
+  index: number | null
+  field: string | null
+  message: MessageDescriptor
+  /**
+   * One-based source line for line-oriented formats.
+   */
+  line?: number
+}
+
+function formatIssue({ index, field, message, line }: ProblemIssue, t: Translate): string {
+  const text = formatMessage(t, message)
+  if (line !== undefined) {
+    return field
+      ? t('problems.atLineField', { line, field, message: text })
+      : t('problems.atLine', { line, message: text })
+  }
+
+  if (index !== null) {
+    return field
+      ? t('problems.atProblemField', { problem: index + 1, field, message: text })
+      : t('problems.atProblem', { problem: index + 1, message: text })
+  }
+
+  return text
+}
+
+/**
+ * Raised when a problem set fails validation. Carries every issue found so
+ * callers can list them instead of stopping at the first one.
+ */
+export class ProblemSetError extends TranslatableError {
+  readonly issues: ProblemIssue[]
+
+  constructor(issues: ProblemIssue[]) {
+    super({ key: 'problems.invalid' })
+    this.name = 'ProblemSetError'
+    this.issues = issues
+    this.updateMessage()
+  }
+
+  translate(t: Translate): string {
+    const [first, ...rest] = this.issues
+    if (!first) {
+      return super.translate(t)
+    }
+
+    const message = formatIssue(first, t)
+    return rest.length > 0 ? t('problems.moreIssues', { message, count: rest.length }) : message
+  }
+
+  getMessages(t: Translate): string[] {
+    return this.issues.map((issue) => formatIssue(issue, t))
+  }
+}
+
+type FieldIssue = Omit<ProblemIssue, 'index'>
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((token) => typeof token === 'string')
+}
+
+function isTokenSpan(value: unknown): value is TokenSpan {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    value.every((bound) => typeof bound === 'number' && Number.isInteger(bound))
+  )
+}
+
+function isSpanSwap(value: unknown): value is SpanSwap {
   if (typeof value !== 'object' || value === null) {
     return false
   }
 
   const candidate = value as Record<string, unknown>
+  return isTokenSpan(candidate.first) && isTokenSpan(candidate.second)
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
   return (
-    Array.isArray(candidate.tokens) &&
-    candidate.tokens.every((token) => typeof token === 'string') &&
-    typeof candidate.note === 'string'
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((entry) => typeof entry === 'string')
   )
 }
 
-function normalizeProblems(data: unknown): ProblemSet {
+function describeStructureIssues(value: unknown): FieldIssue[] {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return [{ field: null, message: { key: 'problems.expectedObject' } }]
+  }
+
+  const candidate = value as Record<string, unknown>
+  const issues: FieldIssue[] = []
+
+  if (candidate.id !== undefined && (typeof candidate.id !== 'string' || candidate.id.trim() === '')) {
+    issues.push({ field: 'id', message: { key: 'problems.expectedOptionalString' } })
+  }
+
+  if (!isStringArray(candidate.tokens)) {
+    issues.push({ field: 'tokens', message: { key: 'problems.expectedStrings' } })
+  } else if (candidate.tokens.length === 0) {
+    issues.push({ field: 'tokens', message: { key: 'problems.expectedToken' } })
+  }
+
+  if (typeof candidate.note !== 'string') {
+    issues.push({ field: 'note', message: { key: 'problems.expectedString' } })
+  }
+
+  if (
+    candidate.alternatives !== undefined &&
+    !(Array.isArray(candidate.alternatives) && candidate.alternatives.every(isStringArray))
+  ) {
+    issues.push({ field: 'alternatives', message: { key: 'problems.expectedAlternatives' } })
+  }
+
+  if (candidate.swaps !== undefined && !(Array.isArray(candidate.swaps) && candidate.swaps.every(isSpanSwap))) {
+    issues.push({ field: 'swaps', message: { key: 'problems.expectedSwaps' } })
+  }
+
+  if (
+    candidate.translation !== undefined &&
+    (typeof candidate.translation !== 'string' || candidate.translation.trim() === '')
+  ) {
+    issues.push({ field: 'translation', message: { key: 'problems.expectedOptionalString' } })
+  }
+
+  if (candidate.glosses !== undefined && !isStringRecord(candidate.glosses)) {
+    issues.push({ field: 'glosses', message: { key: 'problems.expectedGlosses' } })
+  }
+
+  if (candidate.tags !== undefined && !isStringArray(candidate.tags)) {
+    issues.push({ field: 'tags', message: { key: 'problems.expectedStrings' } })
+  }
+
+  if (candidate.distractors !== undefined && !isStringArray(candidate.distractors)) {
+    issues.push({ field: 'distractors', message: { key: 'problems.expectedStrings' } })
+  }
+
+  return issues
+}
+
+export function isProblem(value: unknown): value is Problem {
+  return describeStructureIssues(value).length === 0
+}
+
+function countTokens(tokens: readonly string[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1))
+  return counts
+}
+
+function isSameMultiset(left: readonly string[], right: readonly string[]): boolean {
+  if (left.length !== right.length) {
+    return false
+  }
+
+  const counts = countTokens(left)
+  return right.every((token) => {
+    const remaining = counts.get(token) ?? 0
+    counts.set(token, remaining - 1)
+    return remaining > 0
+  })
+}
+
+/**
+ * Checks the optional ordering metadata against the problem's own tokens.
+ * Alternatives must be permutations of the canonical tokens, and swap spans
+ * must lie within the sentence without overlapping one another.
+ */
+function describeOrderingIssues(problem: Problem): FieldIssue[] {
+  const issues: FieldIssue[] = []
+
+  problem.alternatives?.forEach((alternative, alternativeIndex) => {
+    if (!isSameMultiset(problem.tokens, alternative)) {
+      issues.push({
+        field: `alternatives[${alternativeIndex}]`,
+        message: { key: 'problems.alternativeTokens' },
+      })
+    }
+  })
+
+  if ((problem.swaps?.length ?? 0) > MAX_SWAPS_PER_PROBLEM) {
+    issues.push({ field: 'swaps', message: { key: 'problems.tooManySwaps', params: { max: MAX_SWAPS_PER_PROBLEM } } })
+    return issues
+  }
+
+  const spans = (problem.swaps ?? []).flatMap(({ first, second }) => [first, second])
+  const invalidSpans = spans.filter(([start, end]) => start < 0 || end > problem.tokens.length || start >= end)
+  invalidSpans.forEach(([start, end]) => {
+    issues.push({ field: 'swaps', message: { key: 'problems.spanOutside', params: { start, end } } })
+  })
+
+  if (invalidSpans.length > 0) {
+    return issues
+  }
+
+  const sorted = [...spans].sort((a, b) => a[0] - b[0])
+  sorted.forEach((span, index) => {
+    const next = sorted[index + 1]
+    if (next && next[0] < span[1]) {
+      issues.push({
+        field: 'swaps',
+        message: {
+          key: 'problems.spansOverlap',
+          params: { start: span[0], end: span[1], nextStart: next[0], nextEnd: next[1] },
+        },
+      })
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Glosses are keyed by token text, so every key must name one of the
+ * problem's tokens.
+ */
+function describeGlossIssues(problem: Problem): FieldIssue[] {
+  const tokens = new Set(problem.tokens)
+
+  return Object.keys(problem.glosses ?? {})
+    .filter((token) => !tokens.has(token))
+    .map((token) => ({ field: 'glosses', message: { key: 'problems.unknownGloss', params: { token } } }))
+}
+
+/**
+ * A distractor that matches one of the tokens could be placed correctly and
+ * discarded at the same time, so the learner could never tell which copy to
+ * keep.
+ */
+function describeDistractorIssues(problem: Problem): FieldIssue[] {
+  const tokens = new Set(problem.tokens)
+  const issues: FieldIssue[] = []
+
+  problem.distractors?.forEach((distractor, distractorIndex) => {
+    const field = `distractors[${distractorIndex}]`
+    if (distractor.trim() === '') {
+      issues.push({ field, message: { key: 'problems.expectedNonEmptyString' } })
+    } else if (tokens.has(distractor.trim())) {
+      issues.push({ field, message: { key: 'problems.distractorIsToken', params: { token: distractor.trim() } } })
+    }
+  })
+
+  return issues
+}
+
+export function normalizeProblems(data: unknown): ProblemSet {
   if (!Array.isArray(data)) {
-    throw new Error('Problems payload is not an array as expected.')
+    throw new ProblemSetError([{ index: null, field: null, message: { key: 'problems.notArray' } }])
   }
 
-  return data.map((item) => {
+  const issues: ProblemIssue[] = []
+  const seenIds = new Map<string, number>()
+  const problems: ProblemSet = []
+
+  data.forEach((item: unknown, index) => {
     if (!isProblem(item)) {
-      throw new Error('Encountered a problem entry with unexpected structure.')
+      issues.push(...describeStructureIssues(item).map((issue) => ({ index, ...issue })))
+      return
+    }
+
+    const contentIssues = [
+      ...describeOrderingIssues(item),
+      ...describeGlossIssues(item),
+      ...describeDistractorIssues(item),
+    ]
+    if (contentIssues.length > 0) {
+      issues.push(...contentIssues.map((issue) => ({ index, ...issue })))
+      return
     }
 
-    return {
+    const problem: Problem = {
       tokens: [...item.tokens],
       note: item.note,
     }
+
+    if (item.id !== undefined) {
+      problem.id = item.id.trim()
+    }
+
+    if (item.alternatives && item.alternatives.length > 0) {
+      problem.alternatives = item.alternatives.map((alternative) => [...alternative])
+    }
+
+    if (item.swaps && item.swaps.length > 0) {
+      problem.swaps = item.swaps.map(({ first, second }) => ({
+        first: [first[0], first[1]],
+        second: [second[0], second[1]],
+      }))
+    }
+
+    if (item.translation !== undefined) {
+      problem.translation = item.translation.trim()
+    }
+
+    const glosses = Object.entries(item.glosses ?? {}).filter(([, gloss]) => gloss.trim() !== '')
+    if (glosses.length > 0) {
+      problem.glosses = Object.fromEntries(glosses.map(([token, gloss]) => [token, gloss.trim()]))
+    }
+
+    const tags = Array.from(new Set((item.tags ?? []).map(normalizeTag))).filter((tag) => tag !== '')
+    if (tags.length > 0) {
+      problem.tags = tags
+    }
+
+    const distractors = Array.from(new Set((item.distractors ?? []).map((distractor) => distractor.trim())))
+    if (distractors.length > 0) {
+      problem.distractors = distractors
+    }
+
+    const id = getProblemId(problem)
+    const firstIndex = seenIds.get(id)
+    if (firstIndex !== undefined) {
+      issues.push({
+        index,
+        field: problem.id !== undefined ? 'id' : 'tokens',
+        message: { key: 'problems.duplicate', params: { problem: firstIndex + 1 } },
+      })
+      return
+    }
+
+    seenIds.set(id, index)
+    problems.push(problem)
   })
+
+  if (issues.length > 0) {
+    throw new ProblemSetError(issues)
+  }
+
+  return problems
+}
+
+/**
+ * Parses problems.json-formatted text, reporting malformed JSON the same way
+ * as structural problems.
+ */
+export function parseProblemsJson(text: string): ProblemSet {
+  let payload: unknown
+  try {
+    payload = JSON.parse(text) as unknown
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error)
+    throw new ProblemSetError([
+      { index: null, field: null, message: { key: 'problems.invalidJson', params: { detail } } },
+    ])
+  }
+
+  return normalizeProblems(payload)
 }
 
-export async function fetchProblems(options: FetchProblemsOptions = {}): Promise<ProblemSet> {
-  const { signal } = options
+function normalizeSourceEntries({ entries, issues }: SourceParseResult): ProblemSet {
+  if (issues.length > 0) {
+    throw new ProblemSetError(issues.map(({ line, message }) => ({ index: null, field: null, line, message })))
+  }
+
+  try {
+    return normalizeProblems(entries.map((entry) => entry.value))
+  } catch (error) {
+    if (!(error instanceof ProblemSetError)) {
+      throw error
+    }
 
-  const response = await fetch(PROBLEMS_URL, {
-    headers: { Accept: 'application/json' },
+    throw new ProblemSetError(
+      error.issues.map((issue) => ({
+        ...issue,
+        line: issue.index !== null ? entries[issue.index]?.line : undefined,
+      })),
+    )
+  }
+}
+
+/**
+ * Parses problem data in any supported format. When no format is given it
+ * is guessed from the content.
+ */
+export function parseProblemSource(
+  text: string,
+  format: ProblemFormat = detectFormatFromContent(text),
+): ProblemSet {
+  switch (format) {
+    case 'json':
+      return parseProblemsJson(text)
+    case 'csv':
+      return normalizeSourceEntries(parseCsvSource(text))
+    case 'text':
+      return normalizeSourceEntries(parseTextSource(text))
+  }
+}
+
+function readTimestamp(value: string | null): number | null {
+  const timestamp = value === null ? NaN : /^\d+$/.test(value) ? Number(value) : Date.parse(value)
+  return Number.isFinite(timestamp) ? timestamp : null
+}
+
+/**
+ * Loads a problem file, bypassing the HTTP cache so an update is picked up as
+ * soon as it is published. Offline, the service worker answers with its copy
+ * and reports when that copy was saved.
+ */
+export async function fetchProblems(options: FetchProblemsOptions = {}): Promise<LoadedProblems> {
+  const { url = PROBLEMS_URL, signal } = options
+
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json, text/csv;q=0.9, text/plain;q=0.8' },
+    cache: 'no-cache',
     signal,
   })
 
   if (!response.ok) {
-    throw new Error(`Unable to load problems (${response.status} ${response.statusText}).`)
+    throw new TranslatableError({
+      key: 'problems.loadFailed',
+      params: { status: response.status, statusText: response.statusText },
+    })
   }
 
-  const payload = (await response.json()) as unknown
-  return normalizeProblems(payload)
+  const text = await response.text()
+  const format = detectFormatFromSource(url, response.headers.get('Content-Type') ?? undefined)
+  const problems = parseProblemSource(text, format ?? undefined)
+
+  if (response.headers.get(SERVED_FROM_HEADER) !== 'cache') {
+    return { problems, source: 'network', fetchedAt: Date.now() }
+  }
+
+  const fetchedAt =
+    readTimestamp(response.headers.get(CACHED_AT_HEADER)) ?? readTimestamp(response.headers.get('Date'))
+  return { problems, source: 'cache', fetchedAt }
 }
 
 export function getProblemsUrl(): string {
@@ -73,3 +499,32 @@ export function createProblemSetHash(problems: ProblemSet): string {
 
   return `problems-${lengthComponent}-${digest}`
 }
+
+/**
+ * Identifies a problem by its explicit id, or by a hash of its tokens when
+ * none is given, so progress survives edits to notes or to other problems in
+ * the set.
+ */
+export function getProblemId(problem: Problem): string {
+  if (problem.id !== undefined) {
+    return problem.id
+  }
+
+  const serialized = JSON.stringify(problem.tokens)
+  return `problem-${hashText(serialized).toString(16).padStart(8, '0')}`
+}
+
+/**
+ * Hashes the parts of a problem that persisted fragments depend on. Notes are
+ * deliberately excluded so fixing a typo keeps the learner's arrangement.
+ * Distractors are only included when declared, so fingerprints of problems
+ * without them are unchanged.
+ */
+export function getProblemFingerprint(problem: Problem): string {
+  const parts: unknown[] = [problem.tokens, problem.alternatives ?? [], problem.swaps ?? []]
+  if (problem.distractors && problem.distractors.length > 0) {
+    parts.push(problem.distractors)
+  }
+
+  return hashText(JSON.stringify(parts)).toString(16).padStart(8, '0')
+}
@@ -0,0 +1,203 @@
+import type { LegacySessionState } from '../utils/session'
+
+/**
+ * localStorage keys. Per-pack data is stored under `${key}:${packId}`, see
+ * `getPackStorageKey`.
+ */
+export const PACK_STORAGE_KEY = 'portuguese-reorder-pack'
+export const CUSTOM_PACKS_STORAGE_KEY = 'portuguese-reorder-custom-packs'
+export const SESSION_STORAGE_KEY = 'portuguese-reorder-session'
+export const REVIEWS_STORAGE_KEY = 'portuguese-reorder-reviews'
+export const HISTORY_STORAGE_KEY = 'portuguese-reorder-history'
+export const INPUT_MODE_STORAGE_KEY = 'portuguese-reorder-input-mode'
+export const LISTENING_STORAGE_KEY = 'portuguese-reorder-listening'
+export const LOCALE_STORAGE_KEY = 'portuguese-reorder-locale'
+export const THEME_STORAGE_KEY = 'portuguese-reorder-theme'
+/**
+ * Challenge personal bests of every pack, keyed by `createBestKey`.
+ */
+export const BESTS_STORAGE_KEY = 'portuguese-reorder-bests'
+/**
+ * Problem-set hash each pack was last loaded with, keyed by pack id.
+ */
+export const PACK_HASHES_STORAGE_KEY = 'portuguese-reorder-pack-hashes'
+/**
+ * Set once the legacy session has been migrated and its keys removed.
+ */
+export const LEGACY_MIGRATED_STORAGE_KEY = 'portuguese-reorder-legacy-migrated'
+
+export const PACK_SCOPED_KEYS = [SESSION_STORAGE_KEY, REVIEWS_STORAGE_KEY, HISTORY_STORAGE_KEY] as const
+
+export type PackScopedKey = (typeof PACK_SCOPED_KEYS)[number]
+
+export function getPackStorageKey(key: PackScopedKey, packId: string): string {
+  return `${key}:${packId}`
+}
+
+/**
+ * Imported packs are identified by their problem-set hash behind this prefix,
+ * so their keys never look like legacy session keys.
+ */
+export const CUSTOM_PACK_ID_PREFIX = 'custom-'
+
+export function getCustomPackId(problemSetHash: string): string {
+  return `${CUSTOM_PACK_ID_PREFIX}${problemSetHash}`
+}
+
+/**
+ * Before packs and problem ids existed, the single problem set's session was
+ * stored under `${SESSION_STORAGE_KEY}:${problemSetHash}`. Those problems now
+ * ship as the introductions pack, in the same order.
+ */
+const LEGACY_PACK_ID_PATTERN = /^problems-[0-9a-f]{6}-[0-9a-f]{8}$/
+
+export const LEGACY_PACK_ID = 'introductions'
+
+/**
+ * Ids no built-in pack may use: they belong to imported packs or to legacy
+ * sessions.
+ */
+export function isReservedPackId(packId: string): boolean {
+  return packId.startsWith(CUSTOM_PACK_ID_PREFIX) || LEGACY_PACK_ID_PATTERN.test(packId)
+}
+
+export function isLegacySessionKey(key: string): boolean {
+  const prefix = `${SESSION_STORAGE_KEY}:`
+  return key.startsWith(prefix) && LEGACY_PACK_ID_PATTERN.test(key.slice(prefix.length))
+}
+
+function listLegacySessionKeys(storage: Storage): string[] {
+  const keys: string[] = []
+  for (let index = 0; index < storage.length; index += 1) {
+    const key = storage.key(index)
+    if (key !== null && isLegacySessionKey(key)) {
+      keys.push(key)
+    }
+  }
+
+  return keys
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isLegacyProgress(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.solved === 'boolean' &&
+    Array.isArray(value.fragments) &&
+    value.fragments.every((fragment) => isRecord(fragment) && Array.isArray(fragment.indices))
+  )
+}
+
+function isLegacySession(value: unknown): value is LegacySessionState {
+  return (
+    isRecord(value) &&
+    (value.current === null || typeof value.current === 'number') &&
+    Array.isArray(value.queue) &&
+    value.queue.every((index) => typeof index === 'number') &&
+    Array.isArray(value.progress) &&
+    value.progress.every(isLegacyProgress)
+  )
+}
+
+/**
+ * Returns the first readable legacy session, or null when there is none or it
+ * has already been migrated.
+ */
+export function readLegacySession(storage: Storage): LegacySessionState | null {
+  if (storage.getItem(LEGACY_MIGRATED_STORAGE_KEY) !== null) {
+    return null
+  }
+
+  for (const key of listLegacySessionKeys(storage)) {
+    try {
+      const value = JSON.parse(storage.getItem(key) ?? 'null') as unknown
+      if (isLegacySession(value)) {
+        return value
+      }
+    } catch {
+      // Unreadable leftovers are skipped and removed with the rest.
+    }
+  }
+
+  return null
+}
+
+/**
+ * Removes the legacy sessions once the introductions pack has a session of
+ * its own. Runs only the first time.
+ */
+export function removeLegacySessions(storage: Storage) {
+  if (storage.getItem(LEGACY_MIGRATED_STORAGE_KEY) !== null) {
+    return
+  }
+
+  listLegacySessionKeys(storage).forEach((key) => storage.removeItem(key))
+  storage.setItem(LEGACY_MIGRATED_STORAGE_KEY, JSON.stringify(true))
+}
+
+function readJson(storage: Storage, key: string): unknown {
+  try {
+    return JSON.parse(storage.getItem(key) ?? 'null') as unknown
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Imported packs used to be identified by the bare problem-set hash, which
+ * gave their sessions the keys of legacy sessions. Moves such packs, and
+ * everything stored for them, to prefixed ids. Packs already migrated are
+ * left alone, so this is safe to run on every start.
+ */
+export function migrateCustomPackIds(storage: Storage) {
+  const packs = readJson(storage, CUSTOM_PACKS_STORAGE_KEY)
+  if (!Array.isArray(packs)) {
+    return
+  }
+
+  const renamed = new Map<string, string>()
+  const migrated = packs.map((pack: unknown) => {
+    if (!isRecord(pack) || typeof pack.id !== 'string' || pack.id.startsWith(CUSTOM_PACK_ID_PREFIX)) {
+      return pack
+    }
+
+    const id = getCustomPackId(pack.id)
+    renamed.set(pack.id, id)
+    return { ...pack, id }
+  })
+
+  if (renamed.size === 0) {
+    return
+  }
+
+  const hashes = readJson(storage, PACK_HASHES_STORAGE_KEY)
+  const selectedPackId = readJson(storage, PACK_STORAGE_KEY)
+  renamed.forEach((id, previousId) => {
+    PACK_SCOPED_KEYS.forEach((key) => {
+      const value = storage.getItem(getPackStorageKey(key, previousId))
+      if (value !== null) {
+        storage.setItem(getPackStorageKey(key, id), value)
+        storage.removeItem(getPackStorageKey(key, previousId))
+      }
+    })
+
+    if (isRecord(hashes) && previousId in hashes) {
+      hashes[id] = hashes[previousId]
+      delete hashes[previousId]
+    }
+
+    if (selectedPackId === previousId) {
+      storage.setItem(PACK_STORAGE_KEY, JSON.stringify(id))
+    }
+  })
+
+  if (isRecord(hashes)) {
+    storage.setItem(PACK_HASHES_STORAGE_KEY, JSON.stringify(hashes))
+  }
+
+  // Written last, so an interrupted migration runs again on the next start.
+  storage.setItem(CUSTOM_PACKS_STORAGE_KEY, JSON.stringify(migrated))
+}
@@ -0,0 +1,23 @@
+import { useCallback, useState } from 'react'
+
+export interface Announcement {
+  message: string
+  /**
+   * Increases with every announcement, so repeating a message still counts
+   * as a change.
+   */
+  id: number
+}
+
+/**
+ * Holds the latest message for a `LiveRegion`.
+ */
+export function useAnnouncement(): [Announcement | null, (message: string) => void] {
+  const [announcement, setAnnouncement] = useState<Announcement | null>(null)
+
+  const announce = useCallback((message: string) => {
+    setAnnouncement((previous) => ({ message, id: (previous?.id ?? 0) + 1 }))
+  }, [])
+
+  return [announcement, announce]
+}
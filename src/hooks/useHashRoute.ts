@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react'
+
+function readRoute<Route extends string>(routes: readonly Route[], fallback: () => Route): Route {
+  if (typeof window === 'undefined') {
+    return fallback()
+  }
+
+  const candidate = window.location.hash.replace(/^#\/?/, '')
+  return routes.find((route) => route === candidate) ?? fallback()
+}
+
+/**
+ * Mirrors the active view in the location hash (e.g. `#/editor`) so views
+ * can be bookmarked and the browser's back button works. Relative hash URLs
+ * keep this compatible with the GitHub Pages sub-path deployment.
+ */
+export function useHashRoute<Route extends string>(
+  routes: readonly Route[],
+  fallback: () => Route,
+): [Route, (route: Route) => void] {
+  const [route, setRoute] = useState<Route>(() => readRoute(routes, fallback))
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      setRoute(readRoute(routes, fallback))
+    }
+
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [fallback, routes])
+
+  const navigate = useCallback((next: Route) => {
+    setRoute(next)
+    if (window.location.hash !== `#/${next}`) {
+      window.location.hash = `/${next}`
+    }
+  }, [])
+
+  return [route, navigate]
+}
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useState, type MouseEvent, type PointerEvent } from 'react'
+
+const LONG_PRESS_DELAY = 500
+
+export interface LongPress<T extends Element> {
+  active: boolean
+  handlers: {
+    onPointerDown: (event: PointerEvent<T>) => void
+    onPointerUp: () => void
+    onPointerLeave: () => void
+    onPointerCancel: () => void
+    onClickCapture: (event: MouseEvent<T>) => void
+  }
+}
+
+/**
+ * Reports whether the element is being long-pressed. `active` stays true
+ * until the pointer is released; the click that follows a long press is
+ * swallowed so the press does not also trigger the element's tap action.
+ */
+export function useLongPress<T extends Element>(enabled = true): LongPress<T> {
+  const [active, setActive] = useState(false)
+  const timeoutRef = useRef<number | null>(null)
+  const firedRef = useRef(false)
+
+  const clear = useCallback(() => {
+    if (timeoutRef.current !== null) {
+      window.clearTimeout(timeoutRef.current)
+      timeoutRef.current = null
+    }
+
+    setActive(false)
+  }, [])
+
+  useEffect(() => clear, [clear])
+
+  const onPointerDown = useCallback(
+    (event: PointerEvent<T>) => {
+      firedRef.current = false
+      if (!enabled || event.button !== 0) {
+        return
+      }
+
+      clear()
+      timeoutRef.current = window.setTimeout(() => {
+        firedRef.current = true
+        setActive(true)
+      }, LONG_PRESS_DELAY)
+    },
+    [clear, enabled],
+  )
+
+  const onClickCapture = useCallback((event: MouseEvent<T>) => {
+    if (firedRef.current) {
+      firedRef.current = false
+      event.preventDefault()
+      event.stopPropagation()
+    }
+  }, [])
+
+  return {
+    active,
+    handlers: { onPointerDown, onPointerUp: clear, onPointerLeave: clear, onPointerCancel: clear, onClickCapture },
+  }
+}
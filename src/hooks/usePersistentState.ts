@@ -4,6 +4,12 @@ interface PersistentStateOptions<T> {
   storage?: Storage
   serialize?: (value: T) => string
   deserialize?: (value: string) => T
+  /**
+   * Reconciles this tab's value with one written by another tab. `incoming`
+   * should win wherever the two cannot be combined. Without it, a value from
+   * another tab simply replaces this tab's.
+   */
+  merge?: (current: T, incoming: T) => T
 }
 
 function defaultSerialize<T>(value: T): string {
@@ -14,6 +20,13 @@ function defaultDeserialize<T>(value: string): T {
   return JSON.parse(value) as T
 }
 
+/**
+ * State mirrored to storage under `key`. Writes from other tabs arrive
+ * through the `storage` event and are adopted, or folded in with `merge`.
+ * When another tab wrote since this one last read or wrote the key, the two
+ * values are merged before writing, so a stale tab cannot overwrite newer
+ * progress.
+ */
 export function usePersistentState<T>(
   key: string | null,
   initializer: () => T,
@@ -29,6 +42,12 @@ export function usePersistentState<T>(
   const deserializeRef = useRef(deserialize)
   deserializeRef.current = deserialize
 
+  const mergeRef = useRef(options.merge)
+  mergeRef.current = options.merge
+
+  // Raw value this instance last read from or wrote to storage.
+  const syncedRef = useRef<string | null>(null)
+
   const readStoredValue = useCallback(
     (targetKey: string | null): T => {
       const currentInitializer = initializerRef.current
@@ -40,6 +59,7 @@ export function usePersistentState<T>(
 
       try {
         const rawValue = storage.getItem(targetKey)
+        syncedRef.current = rawValue
         if (rawValue === null) {
           return currentInitializer()
         }
@@ -53,30 +73,74 @@ export function usePersistentState<T>(
     [storage],
   )
 
-  const [state, setState] = useState<T>(() => readStoredValue(key))
-  const previousKeyRef = useRef<string | null>(key)
+  // The key is kept with the value so that, in the render after `key`
+  // changes, the previous key's value is never written under the new key.
+  const [entry, setEntry] = useState<{ key: string | null; value: T }>(() => ({ key, value: readStoredValue(key) }))
+  const state = entry.value
+
+  const setState = useCallback<Dispatch<SetStateAction<T>>>((action) => {
+    setEntry((previous) => ({
+      key: previous.key,
+      value: typeof action === 'function' ? (action as (current: T) => T)(previous.value) : action,
+    }))
+  }, [])
 
   useEffect(() => {
-    if (previousKeyRef.current === key) {
+    if (entry.key === key) {
       return
     }
 
-    setState(readStoredValue(key))
-    previousKeyRef.current = key
-  }, [key, readStoredValue])
+    setEntry({ key, value: readStoredValue(key) })
+  }, [entry.key, key, readStoredValue])
 
   useEffect(() => {
-    if (!storage || key === null) {
+    if (!storage || key === null || typeof window === 'undefined') {
+      return
+    }
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== storage || event.key !== key || event.newValue === null) {
+        return
+      }
+
+      try {
+        const incoming = deserializeRef.current(event.newValue)
+        const merge = mergeRef.current
+        syncedRef.current = event.newValue
+        setEntry((current) =>
+          current.key === key ? { key, value: merge ? merge(current.value, incoming) : incoming } : current,
+        )
+      } catch (error) {
+        console.warn(`Failed to read state written by another tab for key "${key}".`, error)
+      }
+    }
+
+    window.addEventListener('storage', handleStorage)
+    return () => window.removeEventListener('storage', handleStorage)
+  }, [key, storage])
+
+  useEffect(() => {
+    if (!storage || key === null || entry.key !== key) {
       return
     }
 
     try {
+      const stored = storage.getItem(key)
+      const merge = mergeRef.current
+      if (merge && stored !== null && stored !== syncedRef.current) {
+        // Another tab wrote since this one last synced; keep its changes.
+        syncedRef.current = stored
+        setEntry({ key, value: merge(deserializeRef.current(stored), state) })
+        return
+      }
+
       const serialized = serialize(state)
       storage.setItem(key, serialized)
+      syncedRef.current = serialized
     } catch (error) {
       console.warn(`Failed to persist state for key "${key}".`, error)
     }
-  }, [key, serialize, state, storage])
+  }, [entry.key, key, serialize, state, storage])
 
   return [state, setState]
 }
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react'
+
+/**
+ * Calls `revalidate` when the app comes back online or to the foreground,
+ * and every `interval` milliseconds while it stays open. Nothing is checked
+ * while `enabled` is false.
+ */
+export function useRevalidation(revalidate: () => void, interval: number, enabled = true): void {
+  const revalidateRef = useRef(revalidate)
+  revalidateRef.current = revalidate
+
+  useEffect(() => {
+    if (!enabled || typeof window === 'undefined') {
+      return
+    }
+
+    const run = () => revalidateRef.current()
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        run()
+      }
+    }
+
+    const timer = window.setInterval(run, interval)
+    window.addEventListener('online', run)
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      window.clearInterval(timer)
+      window.removeEventListener('online', run)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+    }
+  }, [enabled, interval])
+}
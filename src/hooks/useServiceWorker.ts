@@ -0,0 +1,105 @@
+import { useCallback, useEffect, useState } from 'react'
+
+export interface ServiceWorkerState {
+  /**
+   * A new version has been installed and is waiting for the app to reload.
+   */
+  updateAvailable: boolean
+  /**
+   * Activates the waiting version and reloads once it controls the page.
+   */
+  applyUpdate: () => void
+}
+
+const SERVICE_WORKER_URL = `${import.meta.env.BASE_URL}service-worker.js`
+
+function isServiceWorkerSupported(): boolean {
+  return import.meta.env.PROD && typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+}
+
+/**
+ * Registers the service worker and reports when a new version is waiting.
+ * The worker never activates itself: switching code under a running session
+ * could break it, so the learner decides when to reload. Updates are checked
+ * again whenever the app comes back to the foreground.
+ */
+export function useServiceWorker(): ServiceWorkerState {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null)
+
+  useEffect(() => {
+    if (!isServiceWorkerSupported()) {
+      return
+    }
+
+    const { serviceWorker } = navigator
+    let registration: ServiceWorkerRegistration | null = null
+    let cancelled = false
+
+    // The first install has no controller to replace, so it is not an update.
+    const trackInstalling = (worker: ServiceWorker) => {
+      worker.addEventListener('statechange', () => {
+        if (!cancelled && worker.state === 'installed' && serviceWorker.controller) {
+          setWaitingWorker(worker)
+        }
+      })
+    }
+
+    const handleUpdateFound = () => {
+      if (registration?.installing) {
+        trackInstalling(registration.installing)
+      }
+    }
+
+    const register = () => {
+      serviceWorker
+        .register(SERVICE_WORKER_URL)
+        .then((result) => {
+          if (cancelled) {
+            return
+          }
+
+          registration = result
+          result.addEventListener('updatefound', handleUpdateFound)
+          if (result.waiting && serviceWorker.controller) {
+            setWaitingWorker(result.waiting)
+          } else if (result.installing) {
+            trackInstalling(result.installing)
+          }
+        })
+        .catch((error) => {
+          console.error('Service worker registration failed:', error)
+        })
+    }
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        registration?.update().catch(() => undefined)
+      }
+    }
+
+    if (document.readyState === 'complete') {
+      register()
+    } else {
+      window.addEventListener('load', register, { once: true })
+    }
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      cancelled = true
+      window.removeEventListener('load', register)
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      registration?.removeEventListener('updatefound', handleUpdateFound)
+    }
+  }, [])
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) {
+      return
+    }
+
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true })
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' })
+  }, [waitingWorker])
+
+  return { updateAvailable: waitingWorker !== null, applyUpdate }
+}
@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useState } from 'react'
+
+export type SpeechStatus = 'unsupported' | 'loading' | 'missing-voice' | 'ready'
+
+export interface Speech {
+  status: SpeechStatus
+  voice: SpeechSynthesisVoice | null
+  speak: (text: string) => void
+  cancel: () => void
+}
+
+const TARGET_LANGUAGE = 'pt-PT'
+
+function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window
+}
+
+/**
+ * Finds a European Portuguese voice. Some platforms report languages with an
+ * underscore (`pt_PT`), so the tag is normalized before comparing.
+ */
+function findPortugueseVoice(voices: readonly SpeechSynthesisVoice[]): SpeechSynthesisVoice | null {
+  const candidates = voices.filter((voice) => voice.lang.replace('_', '-').toLowerCase() === 'pt-pt')
+  return candidates.find((voice) => voice.localService) ?? candidates[0] ?? null
+}
+
+/**
+ * Speaks Portuguese text with the Web Speech API. Voices load asynchronously
+ * in most browsers, so the status stays `loading` until the voice list has
+ * been reported. Only a pt-PT voice is used: a Brazilian or default voice
+ * would teach the wrong pronunciation, so `missing-voice` disables playback
+ * instead.
+ */
+export function useSpeech(): Speech {
+  const [voice, setVoice] = useState<SpeechSynthesisVoice | null>(null)
+  const [status, setStatus] = useState<SpeechStatus>(() => (isSpeechSupported() ? 'loading' : 'unsupported'))
+
+  useEffect(() => {
+    if (!isSpeechSupported()) {
+      return
+    }
+
+    const synthesis = window.speechSynthesis
+    const updateVoices = () => {
+      const voices = synthesis.getVoices()
+      if (voices.length === 0) {
+        return
+      }
+
+      const match = findPortugueseVoice(voices)
+      setVoice(match)
+      setStatus(match ? 'ready' : 'missing-voice')
+    }
+
+    updateVoices()
+    synthesis.addEventListener('voiceschanged', updateVoices)
+
+    // Browsers without any installed voice never fire `voiceschanged`.
+    const timeout = window.setTimeout(() => {
+      setStatus((previous) => (previous === 'loading' ? 'missing-voice' : previous))
+    }, 3000)
+
+    return () => {
+      synthesis.removeEventListener('voiceschanged', updateVoices)
+      window.clearTimeout(timeout)
+      synthesis.cancel()
+    }
+  }, [])
+
+  const speak = useCallback(
+    (text: string) => {
+      if (!voice || text.trim() === '') {
+        return
+      }
+
+      const utterance = new SpeechSynthesisUtterance(text)
+      utterance.voice = voice
+      utterance.lang = TARGET_LANGUAGE
+      utterance.rate = 0.9
+
+      window.speechSynthesis.cancel()
+      window.speechSynthesis.speak(utterance)
+    },
+    [voice],
+  )
+
+  const cancel = useCallback(() => {
+    if (isSpeechSupported()) {
+      window.speechSynthesis.cancel()
+    }
+  }, [])
+
+  return { status, voice, speak, cancel }
+}
@@ -0,0 +1,69 @@
+import { useEffect, useState, type Dispatch, type SetStateAction } from 'react'
+import { THEME_STORAGE_KEY } from '../data/storage'
+import type { ColorScheme, Theme, ThemePreference } from '../types'
+import { isThemePreference } from '../utils/theme'
+import { usePersistentState } from './usePersistentState'
+
+function deserializeThemePreference(value: string): ThemePreference {
+  const parsed = JSON.parse(value) as unknown
+  return isThemePreference(parsed) ? parsed : 'system'
+}
+
+function getPreferredColorScheme(): ColorScheme {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+    return 'light'
+  }
+
+  return window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light'
+}
+
+function usePreferredColorScheme(): ColorScheme {
+  const [scheme, setScheme] = useState<ColorScheme>(() => getPreferredColorScheme())
+
+  useEffect(() => {
+    if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+      return
+    }
+
+    const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)')
+    const handleChange = (event: MediaQueryListEvent | MediaQueryList) => {
+      setScheme(event.matches ? 'dark' : 'light')
+    }
+
+    setScheme(mediaQuery.matches ? 'dark' : 'light')
+
+    if (typeof mediaQuery.addEventListener === 'function') {
+      mediaQuery.addEventListener('change', handleChange)
+
+      return () => mediaQuery.removeEventListener('change', handleChange)
+    }
+
+    mediaQuery.addListener(handleChange)
+    return () => mediaQuery.removeListener(handleChange)
+  }, [])
+
+  return scheme
+}
+
+/**
+ * The saved theme choice and the theme it resolves to, which is applied to
+ * the root `data-theme` attribute. `system` keeps following the operating
+ * system's light or dark setting.
+ */
+export function useTheme(): [ThemePreference, Dispatch<SetStateAction<ThemePreference>>, Theme] {
+  const [preference, setPreference] = usePersistentState<ThemePreference>(THEME_STORAGE_KEY, () => 'system', {
+    deserialize: deserializeThemePreference,
+  })
+  const scheme = usePreferredColorScheme()
+  const theme = preference === 'system' ? scheme : preference
+
+  useEffect(() => {
+    if (typeof document === 'undefined') {
+      return
+    }
+
+    document.documentElement.setAttribute('data-theme', theme)
+  }, [theme])
+
+  return [preference, setPreference, theme]
+}
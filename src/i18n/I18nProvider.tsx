@@ -0,0 +1,49 @@
+import { createContext, useContext, useEffect, useMemo, type ReactNode } from 'react'
+import { LOCALE_STORAGE_KEY } from '../data/storage'
+import { usePersistentState } from '../hooks/usePersistentState'
+import type { Locale } from './messages'
+import { createTranslator, detectLocale, isLocale, type Translate } from './translate'
+
+export interface I18n {
+  locale: Locale
+  setLocale: (locale: Locale) => void
+  t: Translate
+}
+
+const I18nContext = createContext<I18n | null>(null)
+
+function deserializeLocale(value: string): Locale {
+  const parsed = JSON.parse(value) as unknown
+  return isLocale(parsed) ? parsed : detectLocale()
+}
+
+interface I18nProviderProps {
+  children: ReactNode
+}
+
+/**
+ * Provides the interface language. The first visit follows the browser's
+ * language; after that the learner's choice is saved.
+ */
+export function I18nProvider({ children }: I18nProviderProps) {
+  const [locale, setLocale] = usePersistentState<Locale>(LOCALE_STORAGE_KEY, () => detectLocale(), {
+    deserialize: deserializeLocale,
+  })
+  const t = useMemo(() => createTranslator(locale), [locale])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const value = useMemo(() => ({ locale, setLocale, t }), [locale, setLocale, t])
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>
+}
+
+export function useI18n(): I18n {
+  const i18n = useContext(I18nContext)
+  if (!i18n) {
+    throw new Error('useI18n must be used inside an I18nProvider.')
+  }
+
+  return i18n
+}
@@ -0,0 +1,662 @@
+/**
+ * Interface languages. Problem content is always European Portuguese; this
+ * only changes the language the app itself speaks.
+ */
+export type Locale = 'en' | 'pt-PT'
+
+export const LOCALES: readonly Locale[] = ['en', 'pt-PT']
+
+export const DEFAULT_LOCALE: Locale = 'en'
+
+/**
+ * Each locale's name in its own language, for the switcher.
+ */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  'pt-PT': 'Português',
+}
+
+/**
+ * A message that varies with `count`, one form per plural category of the
+ * locale (see `Intl.PluralRules`). `other` is required as the fallback.
+ */
+export type PluralMessage = Readonly<Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }>
+
+/**
+ * Placeholders are written `{name}` and filled from the translation
+ * parameters.
+ */
+export type Message = string | PluralMessage
+
+/**
+ * The English catalog is the reference: its keys and placeholders type every
+ * other catalog and every call to `t`.
+ */
+const en = {
+  'views.label': 'Views',
+  'views.packs': 'Packs',
+  'views.practice': 'Practice',
+  'views.challenge': 'Challenge',
+  'views.stats': 'Statistics',
+  'views.editor': 'Editor',
+  'language.label': 'Interface language',
+
+  'update.available': 'Update available. Your progress is saved, so reloading will not lose your place.',
+  'update.reload': 'Reload',
+  'problemsUpdate.available':
+    'New problems available. Phrases that changed will start over; the rest keep their progress.',
+  'problemsUpdate.availableForPack':
+    'New problems available for “{pack}”. Phrases that changed will start over; the rest keep their progress.',
+  'problemsUpdate.load': 'Load new problems',
+  'problemsUpdate.later': 'Later',
+
+  'dataSource.network': 'Problems downloaded {age}.',
+  'dataSource.networkUnknown': 'Problems downloaded from the network.',
+  'dataSource.cache': 'You are offline: using problems saved {age}. Updates will be checked when you reconnect.',
+  'dataSource.cacheUnknown': 'You are offline: using saved problems. Updates will be checked when you reconnect.',
+
+  'speech.unsupported': 'Audio is unavailable: this browser does not support speech synthesis.',
+  'speech.missingVoice': 'Audio is unavailable: no European Portuguese (pt-PT) voice is installed on this device.',
+
+  'review.today': 'Next review: later today',
+  'review.inDays': { one: 'Next review: tomorrow', other: 'Next review: in {count} days' },
+
+  'status.loadingPacks': 'Loading problem packs…',
+  'status.loadingPacksDetail': 'Fetching the list of available practice sets.',
+  'status.packsError': 'Unable to load problem packs',
+  'status.choosePack': 'Choose a problem pack',
+  'status.choosePackDetail': 'Pick a practice set from the Packs tab to start arranging phrases.',
+  'status.loadingProblems': 'Loading practice problems…',
+  'status.loadingProblemsDetail': 'Fetching “{pack}” from the local dataset.',
+  'status.problemsError': 'Unable to load problems',
+  'status.empty': 'No practice prompts available',
+  'status.emptyDetail': 'Add entries to problems.json to begin creating reorder challenges.',
+  'status.unknownError': 'Unknown error',
+  'status.readFailed': 'Unable to read {file}: {message}',
+
+  'practice.preparing': 'Preparing your first challenge',
+  'practice.statusUpdate': 'Status update',
+  'practice.workspace': 'Practice workspace',
+  'practice.allDone': 'All reviews done',
+  'practice.solvedOf': { one: 'Solved {count} of {total}', other: 'Solved {count} of {total}' },
+  'practice.reviewOf': 'Review {position} of {total}',
+  'practice.buildMeaning': 'Build this meaning',
+  'practice.arrange': 'Arrange the phrase',
+  'practice.inputMode': 'Input mode',
+  'practice.difficulty': 'Difficulty',
+  'practice.restartHint': 'Starts a new session',
+  'practice.listening': 'Listening mode',
+  'practice.listeningHint': 'Read each sentence aloud before you arrange it',
+  'practice.listenAgain': 'Listen again',
+  'practice.undo': 'Undo',
+  'practice.undoHint': 'Undo (Ctrl+Z)',
+  'practice.redo': 'Redo',
+  'practice.redoHint': 'Redo (Ctrl+Shift+Z)',
+  'practice.note': 'Grammar note',
+  'practice.noteHint': 'Hint: grammar note',
+  'practice.playSentence': '▶ Play sentence',
+  'practice.byTopic': 'Practise by topic',
+  'practice.controls': 'Game controls',
+  'practice.solve': 'Solve phrase',
+  'practice.next': 'Next prompt',
+  'practice.newSession': 'Start new session',
+  'practice.skip': 'Skip for now',
+  'practice.score': '{count} of {total} tokens correct.',
+  'practice.solved': 'Solved!',
+  'practice.discardRemaining': "Discard the tokens that don't belong.",
+
+  'theme.label': 'Theme',
+  'theme.system': 'System theme',
+  'theme.light': 'Light',
+  'theme.dark': 'Dark',
+  'theme.highContrast': 'High contrast',
+
+  'inputMode.drag': 'Drag',
+  'inputMode.tap': 'Tap',
+
+  'difficulty.easy': 'Easy',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Hard',
+
+  'hint.default': 'Hint',
+  'hint.note': 'Hint: show the note',
+  'hint.highlight': 'Hint: highlight next token',
+  'hint.place': 'Hint: place a token',
+
+  'packs.eyebrow': 'Choose what to practise',
+  'packs.title': 'Problem packs',
+  'packs.imported': 'Imported packs',
+  'packs.import': 'Import a problem set',
+  'packs.backup': 'Back up or restore progress',
+  'packs.current': 'Current pack',
+  'packs.remove': 'Remove',
+  'packs.removeLabel': 'Remove {pack}',
+  'packs.customDescription': {
+    one: '{count} problem imported on {date}.',
+    other: '{count} problems imported on {date}.',
+  },
+  'packs.customLevel': 'Custom',
+  'packs.loadFailed': 'Unable to load problem packs ({status} {statusText}).',
+  'packs.notArray': 'Pack manifest is not an array as expected.',
+  'packs.invalid': 'Pack {position} in the manifest has an unexpected structure.',
+  'packs.reservedId': 'Pack {position} uses the id "{id}", which is reserved for imported packs.',
+  'packs.duplicateId': 'Pack {position} reuses the id "{id}".',
+
+  'import.title': 'Pack title',
+  'import.titlePlaceholder': 'Imported problems',
+  'import.problems': 'Problems (JSON, text or CSV)',
+  'import.formatHelp':
+    'Plain text takes a sentence line with `|` between tokens followed by its note line. CSV takes `sentence,note` ' +
+    'columns, plus optional `id`, `translation`, `tags` and `distractors` columns.',
+  'import.empty': 'The problem set is empty. Add at least one problem.',
+  'import.error': 'The problem set could not be imported',
+  'import.loadFile': 'Load file…',
+  'import.submit': 'Import pack',
+
+  'problems.loadFailed': 'Unable to load problems ({status} {statusText}).',
+  'problems.invalid': 'The problem set is invalid.',
+  'problems.notArray': 'Problems payload is not an array as expected.',
+  'problems.invalidJson': 'The text is not valid JSON: {detail}',
+  'problems.moreIssues': { one: '{message} (and {count} more)', other: '{message} (and {count} more)' },
+  'problems.atProblem': 'Problem {problem}: {message}',
+  'problems.atProblemField': 'Problem {problem} ({field}): {message}',
+  'problems.atLine': 'Line {line}: {message}',
+  'problems.atLineField': 'Line {line} ({field}): {message}',
+  'problems.expectedObject': 'expected an object with "tokens" and "note".',
+  'problems.expectedOptionalString': 'expected a non-empty string when present.',
+  'problems.expectedStrings': 'expected an array of strings.',
+  'problems.expectedToken': 'expected at least one token.',
+  'problems.expectedString': 'expected a string.',
+  'problems.expectedNonEmptyString': 'expected a non-empty string.',
+  'problems.expectedAlternatives': 'expected an array of token arrays.',
+  'problems.expectedSwaps': 'expected an array of objects with "first" and "second" spans, each [start, end].',
+  'problems.expectedGlosses': 'expected an object mapping tokens to strings.',
+  'problems.alternativeTokens': 'does not use exactly the same tokens as "tokens".',
+  'problems.tooManySwaps': 'at most {max} swaps may be declared.',
+  'problems.spanOutside': 'span [{start}, {end}) is outside the token list or empty.',
+  'problems.spansOverlap': 'spans [{start}, {end}) and [{nextStart}, {nextEnd}) overlap.',
+  'problems.unknownGloss': '"{token}" is not one of the problem\'s tokens.',
+  'problems.distractorIsToken': '"{token}" is one of the problem\'s tokens.',
+  'problems.duplicate': 'duplicates problem {problem}. Give it a unique "id".',
+  'problems.missingNote': 'expected a note on the line after the sentence.',
+  'problems.unclosedQuote': 'a quoted field is never closed.',
+  'problems.missingColumns': 'expected both a sentence and a note column.',
+
+  'backup.intro':
+    'Progress is stored in this browser only. Export a backup to keep it safe or to move it to another device.',
+  'backup.export': 'Export backup',
+  'backup.import': 'Import backup…',
+  'backup.error': 'The backup could not be imported',
+  'backup.from': 'Backup from {date}',
+  'backup.empty': 'The backup holds no progress.',
+  'backup.matched': 'Matches a pack on this device.',
+  'backup.unknownPack': 'This pack is not on this device. Choose a pack to merge it into, or skip it.',
+  'backup.differentProblems':
+    'The pack has different problems on this device. Choose a pack to merge it into, or skip it.',
+  'backup.noActivity': 'No activity',
+  'backup.lastActive': 'Last active {date}',
+  'backup.mergeInto': 'Merge into',
+  'backup.skip': 'Skip this pack',
+  'backup.mergeRule':
+    'For each problem, whichever copy was practised most recently is kept. The page reloads afterwards.',
+  'backup.cancel': 'Cancel',
+  'backup.restore': 'Restore progress',
+  'backup.notJson': 'The file is not valid JSON.',
+  'backup.notBackup': 'The file is not a progress backup.',
+  'backup.newerVersion': 'The backup was made by a newer version of the app. Update the app and try again.',
+  'backup.damaged': 'The backup is damaged: some of its data has an unexpected structure.',
+  'backup.invalidPack': 'The imported pack “{pack}” in the backup is invalid.',
+
+  'editor.eyebrow': 'Author new prompts',
+  'editor.title': 'Problem editor',
+  'editor.problems': 'Problems in this set',
+  'editor.add': 'Add a problem',
+  'editor.details': 'Problem details',
+  'editor.sentence': 'Portuguese sentence',
+  'editor.boundaries': { one: 'Token boundaries · {count} token', other: 'Token boundaries · {count} tokens' },
+  'editor.note': 'Grammar note',
+  'editor.warnings': 'Check this problem',
+  'editor.remove': 'Remove problem',
+  'editor.preview': 'Preview',
+  'editor.reshuffle': 'Reshuffle',
+  'editor.check': 'Check order',
+  'editor.inPlace': '{placed} of {total} tokens in place.',
+  'editor.export': 'Export',
+  'editor.invalid': 'The set is not valid yet',
+  'editor.setTitle': 'Set title',
+  'editor.setTitlePlaceholder': 'My problems',
+  'editor.copy': 'Copy JSON',
+  'editor.copied': 'Copied',
+  'editor.download': 'Download problems.json',
+  'editor.practise': 'Practise this set',
+  'editor.emptySentence': 'The sentence is empty.',
+  'editor.singleToken': 'Only one token: there is nothing to reorder.',
+  'editor.identicalTokens': 'Every token is identical, so any order is correct.',
+  'editor.duplicateToken': {
+    one: '“{token}” appears once.',
+    other: '“{token}” appears {count} times. Tokens are compared by text, so either copy locks in any of their places.',
+  },
+  'editor.emptyNote': 'The grammar note is empty.',
+
+  'splitter.label': 'Token boundaries',
+  'splitter.boundary': 'Token boundary (click to join)',
+  'splitter.joined': 'Joined (click to split)',
+  'splitter.before': 'Boundary before “{word}”',
+  'splitter.beforeInWord': 'Boundary before “{character}” in “{word}”',
+  'splitter.split': 'Split inside this word',
+  'splitter.done': 'Done splitting “{word}”',
+
+  'tags.label': 'Grammar topics',
+  'tags.all': 'All topics',
+  'tags.matching': { one: '{matching} of {count} problem', other: '{matching} of {count} problems' },
+  'tags.clear': 'Clear',
+  'tags.start': 'Start session',
+
+  'token.play': 'Play {token}',
+  'token.playPronunciation': 'Play pronunciation',
+  'token.locked': '{token} (locked)',
+  'token.fallback': 'The token',
+
+  'tap.answer': 'Your answer',
+  'tap.bank': 'Token bank',
+  'tap.placeholder': 'Tap the tokens below in order to build the sentence.',
+  'tap.place': 'Place {token}',
+  'tap.sendBack': 'Send back {token}',
+  'tap.discard': 'Discard {token}',
+  'tap.discardInstructions': "Tap ✕ on tokens that don't belong.",
+
+  'discard.label': 'Discard',
+  'discard.tokens': 'Discarded tokens',
+  'discard.restore': 'Put back {token}',
+  'discard.locked': '{token} (discarded)',
+  'discard.dragInstructions': "Drag tokens that don't belong here.",
+
+  'keyboard.instructions':
+    'Press Space to pick up a token. Move it with the arrow keys, Home or End, then press Enter to drop it ' +
+    'or Escape to cancel. When there is a discard pile, press Delete or Backspace to discard it.',
+  'keyboard.pickedUp': 'Picked up {token}, position {position} of {total}.',
+  'keyboard.moveHelp': 'Use the arrow keys, Home or End to move it, Enter to drop it or Escape to cancel.',
+  'keyboard.discardHelp': 'Press Delete to discard it.',
+  'keyboard.movedAfter': '{token} moved after {previous}, position {position} of {total}',
+  'keyboard.movedToStart': '{token} moved to the start, position {position} of {total}',
+  'keyboard.alreadyAt': '{token} is already at position {position} of {total}.',
+  'keyboard.dropped': 'Dropped.',
+  'keyboard.droppedInPlace': '{token} dropped in its original position.',
+  'keyboard.cancelled': 'Move cancelled. {token} is back at position {position} of {total}.',
+
+  'drag.pickedUp': 'Picked up {token}.',
+  'drag.overNothing': '{token} is no longer over a drop target.',
+  'drag.overDiscard': '{token} is over the discard pile.',
+  'drag.over': '{token} is over {target}.',
+  'drag.cancelled': 'Moving {token} was cancelled.',
+  'drag.discarded': '{token} discarded.',
+
+  'challenge.eyebrow': 'Test yourself',
+  'challenge.sprint': 'Sprint',
+  'challenge.sprintDescription':
+    'Solve as many phrases as you can in {duration}. Wrong answers only cost time, and you can skip.',
+  'challenge.streak': 'Perfect streak',
+  'challenge.streakDescription': 'Solve phrase after phrase on the first try. A single misplaced token ends the run.',
+  'challenge.endTime': 'Time is up.',
+  'challenge.endMistake': 'A token was out of place.',
+  'challenge.endCompleted': 'You worked through every phrase in the pack.',
+  'challenge.sprintScore': { one: '{count} phrase solved', other: '{count} phrases solved' },
+  'challenge.streakScore': { one: '{count} phrase in a row', other: '{count} phrases in a row' },
+  'challenge.noProblemsDetail': 'Challenges use the phrases of the current pack.',
+  'challenge.newBest': 'New personal best!',
+  'challenge.bests': 'Personal bests',
+  'challenge.best': 'Best: {score}',
+  'challenge.playAgain': 'Play again',
+  'challenge.chooseMode': 'Choose another mode',
+  'challenge.correct': 'Correct!',
+  'challenge.notQuite': 'Not quite. Keep going.',
+  'challenge.skip': 'Skip',
+  'challenge.quit': 'Quit',
+
+  'stats.eyebrow': 'Your progress',
+
+  'duration.seconds': '{seconds}s',
+  'duration.minutes': '{minutes}m {seconds}s',
+  'stats.emptyTitle': 'No attempts recorded yet',
+  'stats.emptyDetail': 'Press Solve on a few prompts and your statistics will appear here.',
+  'stats.attempts': 'Solve attempts',
+  'stats.solved': 'Prompts solved',
+  'stats.cleanSolves': 'Solved without hints',
+  'stats.averageTime': 'Average time',
+  'stats.perProblem': 'Attempts per problem',
+  'stats.problemColumn': 'Problem',
+  'stats.attemptsColumn': 'Attempts',
+  'stats.solvesColumn': 'Solves',
+  'stats.timeColumn': 'Avg. time',
+  'stats.hintsColumn': 'Hints',
+  'stats.skipsColumn': 'Skips',
+  'stats.hinted': '({count} hinted)',
+  'stats.hardest': 'Most often misplaced tokens',
+  'stats.misses': { one: '{count} miss', other: '{count} misses' },
+} as const satisfies Record<string, Message>
+
+export type EnglishCatalog = typeof en
+
+export type MessageKey = keyof EnglishCatalog
+
+export type Catalog = Record<MessageKey, Message>
+
+const ptPT: Catalog = {
+  'views.label': 'Vistas',
+  'views.packs': 'Pacotes',
+  'views.practice': 'Praticar',
+  'views.challenge': 'Desafio',
+  'views.stats': 'Estatísticas',
+  'views.editor': 'Editor',
+  'language.label': 'Idioma da interface',
+
+  'update.available':
+    'Há uma atualização disponível. O seu progresso está guardado: recarregar não o faz perder o lugar.',
+  'update.reload': 'Recarregar',
+  'problemsUpdate.available':
+    'Há novos problemas disponíveis. As frases que mudaram recomeçam; as restantes mantêm o progresso.',
+  'problemsUpdate.availableForPack':
+    'Há novos problemas disponíveis para «{pack}». As frases que mudaram recomeçam; as restantes mantêm o progresso.',
+  'problemsUpdate.load': 'Carregar os novos problemas',
+  'problemsUpdate.later': 'Mais tarde',
+
+  'dataSource.network': 'Problemas transferidos {age}.',
+  'dataSource.networkUnknown': 'Problemas transferidos da rede.',
+  'dataSource.cache':
+    'Está offline: a usar problemas guardados {age}. As atualizações são verificadas quando voltar a ligar-se.',
+  'dataSource.cacheUnknown':
+    'Está offline: a usar problemas guardados. As atualizações são verificadas quando voltar a ligar-se.',
+
+  'speech.unsupported': 'Áudio indisponível: este navegador não suporta síntese de voz.',
+  'speech.missingVoice':
+    'Áudio indisponível: não há nenhuma voz de português europeu (pt-PT) instalada neste dispositivo.',
+
+  'review.today': 'Próxima revisão: hoje, mais tarde',
+  'review.inDays': { one: 'Próxima revisão: amanhã', other: 'Próxima revisão: daqui a {count} dias' },
+
+  'status.loadingPacks': 'A carregar os pacotes de problemas…',
+  'status.loadingPacksDetail': 'A obter a lista de conjuntos de prática disponíveis.',
+  'status.packsError': 'Não foi possível carregar os pacotes de problemas',
+  'status.choosePack': 'Escolha um pacote de problemas',
+  'status.choosePackDetail': 'Escolha um conjunto de prática no separador Pacotes para começar a ordenar frases.',
+  'status.loadingProblems': 'A carregar os problemas de prática…',
+  'status.loadingProblemsDetail': 'A obter «{pack}» do conjunto de dados local.',
+  'status.problemsError': 'Não foi possível carregar os problemas',
+  'status.empty': 'Não há frases de prática disponíveis',
+  'status.emptyDetail': 'Adicione entradas ao problems.json para começar a criar desafios de ordenação.',
+  'status.unknownError': 'Erro desconhecido',
+  'status.readFailed': 'Não foi possível ler {file}: {message}',
+
+  'practice.preparing': 'A preparar o seu primeiro desafio',
+  'practice.statusUpdate': 'Atualização de estado',
+  'practice.workspace': 'Área de prática',
+  'practice.allDone': 'Todas as revisões concluídas',
+  'practice.solvedOf': { one: '{count} de {total} resolvida', other: '{count} de {total} resolvidas' },
+  'practice.reviewOf': 'Revisão {position} de {total}',
+  'practice.buildMeaning': 'Construa este significado',
+  'practice.arrange': 'Ordene a frase',
+  'practice.inputMode': 'Modo de introdução',
+  'practice.difficulty': 'Dificuldade',
+  'practice.restartHint': 'Começa uma nova sessão',
+  'practice.listening': 'Modo de escuta',
+  'practice.listeningHint': 'Lê cada frase em voz alta antes de a ordenar',
+  'practice.listenAgain': 'Ouvir novamente',
+  'practice.undo': 'Anular',
+  'practice.undoHint': 'Anular (Ctrl+Z)',
+  'practice.redo': 'Refazer',
+  'practice.redoHint': 'Refazer (Ctrl+Shift+Z)',
+  'practice.note': 'Nota gramatical',
+  'practice.noteHint': 'Dica: nota gramatical',
+  'practice.playSentence': '▶ Ouvir a frase',
+  'practice.byTopic': 'Praticar por tema',
+  'practice.controls': 'Controlos do jogo',
+  'practice.solve': 'Resolver frase',
+  'practice.next': 'Frase seguinte',
+  'practice.newSession': 'Começar nova sessão',
+  'practice.skip': 'Saltar por agora',
+  'practice.score': '{count} de {total} palavras no lugar certo.',
+  'practice.solved': 'Resolvida!',
+  'practice.discardRemaining': 'Descarte as palavras que não pertencem à frase.',
+
+  'theme.label': 'Tema',
+  'theme.system': 'Tema do sistema',
+  'theme.light': 'Claro',
+  'theme.dark': 'Escuro',
+  'theme.highContrast': 'Alto contraste',
+
+  'inputMode.drag': 'Arrastar',
+  'inputMode.tap': 'Tocar',
+
+  'difficulty.easy': 'Fácil',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Difícil',
+
+  'hint.default': 'Dica',
+  'hint.note': 'Dica: mostrar a nota',
+  'hint.highlight': 'Dica: destacar a palavra seguinte',
+  'hint.place': 'Dica: colocar uma palavra',
+
+  'packs.eyebrow': 'Escolha o que praticar',
+  'packs.title': 'Pacotes de problemas',
+  'packs.imported': 'Pacotes importados',
+  'packs.import': 'Importar um conjunto de problemas',
+  'packs.backup': 'Guardar ou restaurar o progresso',
+  'packs.current': 'Pacote atual',
+  'packs.remove': 'Remover',
+  'packs.removeLabel': 'Remover {pack}',
+  'packs.customDescription': {
+    one: '{count} problema importado a {date}.',
+    other: '{count} problemas importados a {date}.',
+  },
+  'packs.customLevel': 'Personalizado',
+  'packs.loadFailed': 'Não foi possível carregar os pacotes de problemas ({status} {statusText}).',
+  'packs.notArray': 'O manifesto de pacotes não é uma lista, como era esperado.',
+  'packs.invalid': 'O pacote {position} do manifesto tem uma estrutura inesperada.',
+  'packs.reservedId': 'O pacote {position} usa o id «{id}», reservado para pacotes importados.',
+  'packs.duplicateId': 'O pacote {position} repete o id «{id}».',
+
+  'import.title': 'Título do pacote',
+  'import.titlePlaceholder': 'Problemas importados',
+  'import.problems': 'Problemas (JSON, texto ou CSV)',
+  'import.formatHelp':
+    'O texto simples leva uma linha com a frase, com `|` entre as palavras, seguida da linha da nota. O CSV leva ' +
+    'as colunas `sentence,note` e, opcionalmente, `id`, `translation`, `tags` e `distractors`.',
+  'import.empty': 'O conjunto de problemas está vazio. Adicione pelo menos um problema.',
+  'import.error': 'Não foi possível importar o conjunto de problemas',
+  'import.loadFile': 'Carregar ficheiro…',
+  'import.submit': 'Importar pacote',
+
+  'problems.loadFailed': 'Não foi possível carregar os problemas ({status} {statusText}).',
+  'problems.invalid': 'O conjunto de problemas não é válido.',
+  'problems.notArray': 'Os dados dos problemas não são uma lista, como era esperado.',
+  'problems.invalidJson': 'O texto não é JSON válido: {detail}',
+  'problems.moreIssues': { one: '{message} (e mais {count})', other: '{message} (e mais {count})' },
+  'problems.atProblem': 'Problema {problem}: {message}',
+  'problems.atProblemField': 'Problema {problem} ({field}): {message}',
+  'problems.atLine': 'Linha {line}: {message}',
+  'problems.atLineField': 'Linha {line} ({field}): {message}',
+  'problems.expectedObject': 'era esperado um objeto com "tokens" e "note".',
+  'problems.expectedOptionalString': 'era esperado um texto não vazio, quando presente.',
+  'problems.expectedStrings': 'era esperada uma lista de textos.',
+  'problems.expectedToken': 'era esperada pelo menos uma palavra.',
+  'problems.expectedString': 'era esperado um texto.',
+  'problems.expectedNonEmptyString': 'era esperado um texto não vazio.',
+  'problems.expectedAlternatives': 'era esperada uma lista de listas de palavras.',
+  'problems.expectedSwaps':
+    'era esperada uma lista de objetos com os intervalos "first" e "second", cada um [início, fim].',
+  'problems.expectedGlosses': 'era esperado um objeto que associe palavras a textos.',
+  'problems.alternativeTokens': 'não usa exatamente as mesmas palavras que "tokens".',
+  'problems.tooManySwaps': 'podem ser declaradas no máximo {max} trocas.',
+  'problems.spanOutside': 'o intervalo [{start}, {end}) está fora da lista de palavras ou está vazio.',
+  'problems.spansOverlap': 'os intervalos [{start}, {end}) e [{nextStart}, {nextEnd}) sobrepõem-se.',
+  'problems.unknownGloss': '"{token}" não é uma das palavras do problema.',
+  'problems.distractorIsToken': '"{token}" é uma das palavras do problema.',
+  'problems.duplicate': 'repete o problema {problem}. Dê-lhe um "id" único.',
+  'problems.missingNote': 'era esperada uma nota na linha a seguir à frase.',
+  'problems.unclosedQuote': 'um campo entre aspas nunca é fechado.',
+  'problems.missingColumns': 'eram esperadas uma coluna com a frase e outra com a nota.',
+
+  'backup.intro':
+    'O progresso fica guardado apenas neste navegador. Exporte uma cópia de segurança para o proteger ou para o ' +
+    'levar para outro dispositivo.',
+  'backup.export': 'Exportar cópia de segurança',
+  'backup.import': 'Importar cópia de segurança…',
+  'backup.error': 'Não foi possível importar a cópia de segurança',
+  'backup.from': 'Cópia de segurança de {date}',
+  'backup.empty': 'A cópia de segurança não tem progresso.',
+  'backup.matched': 'Corresponde a um pacote deste dispositivo.',
+  'backup.unknownPack': 'Este pacote não está neste dispositivo. Escolha um pacote onde o juntar ou ignore-o.',
+  'backup.differentProblems':
+    'Neste dispositivo, o pacote tem problemas diferentes. Escolha um pacote onde o juntar ou ignore-o.',
+  'backup.noActivity': 'Sem atividade',
+  'backup.lastActive': 'Última atividade a {date}',
+  'backup.mergeInto': 'Juntar a',
+  'backup.skip': 'Ignorar este pacote',
+  'backup.mergeRule':
+    'Para cada problema, fica a cópia praticada mais recentemente. Depois, a página é recarregada.',
+  'backup.cancel': 'Cancelar',
+  'backup.restore': 'Restaurar progresso',
+  'backup.notJson': 'O ficheiro não é JSON válido.',
+  'backup.notBackup': 'O ficheiro não é uma cópia de segurança do progresso.',
+  'backup.newerVersion':
+    'A cópia de segurança foi feita por uma versão mais recente da aplicação. ' +
+    'Atualize a aplicação e tente de novo.',
+  'backup.damaged': 'A cópia de segurança está danificada: alguns dos dados têm uma estrutura inesperada.',
+  'backup.invalidPack': 'O pacote importado «{pack}» da cópia de segurança não é válido.',
+
+  'editor.eyebrow': 'Crie novas frases',
+  'editor.title': 'Editor de problemas',
+  'editor.problems': 'Problemas deste conjunto',
+  'editor.add': 'Adicionar um problema',
+  'editor.details': 'Detalhes do problema',
+  'editor.sentence': 'Frase em português',
+  'editor.boundaries': { one: 'Divisões · {count} palavra', other: 'Divisões · {count} palavras' },
+  'editor.note': 'Nota gramatical',
+  'editor.warnings': 'Verifique este problema',
+  'editor.remove': 'Remover problema',
+  'editor.preview': 'Pré-visualização',
+  'editor.reshuffle': 'Baralhar de novo',
+  'editor.check': 'Verificar ordem',
+  'editor.inPlace': '{placed} de {total} palavras no lugar.',
+  'editor.export': 'Exportar',
+  'editor.invalid': 'O conjunto ainda não é válido',
+  'editor.setTitle': 'Título do conjunto',
+  'editor.setTitlePlaceholder': 'Os meus problemas',
+  'editor.copy': 'Copiar JSON',
+  'editor.copied': 'Copiado',
+  'editor.download': 'Descarregar problems.json',
+  'editor.practise': 'Praticar este conjunto',
+  'editor.emptySentence': 'A frase está vazia.',
+  'editor.singleToken': 'Só há uma palavra: não há nada para ordenar.',
+  'editor.identicalTokens': 'Todas as palavras são iguais, por isso qualquer ordem está certa.',
+  'editor.duplicateToken': {
+    one: '«{token}» aparece uma vez.',
+    other:
+      '«{token}» aparece {count} vezes. As palavras são comparadas pelo texto, por isso qualquer das cópias ' +
+      'fica certa em qualquer das suas posições.',
+  },
+  'editor.emptyNote': 'A nota gramatical está vazia.',
+
+  'splitter.label': 'Divisões entre palavras',
+  'splitter.boundary': 'Divisão entre palavras (clique para juntar)',
+  'splitter.joined': 'Juntas (clique para dividir)',
+  'splitter.before': 'Divisão antes de «{word}»',
+  'splitter.beforeInWord': 'Divisão antes de «{character}» em «{word}»',
+  'splitter.split': 'Dividir dentro desta palavra',
+  'splitter.done': 'Terminar a divisão de «{word}»',
+
+  'tags.label': 'Temas gramaticais',
+  'tags.all': 'Todos os temas',
+  'tags.matching': { one: '{matching} de {count} problema', other: '{matching} de {count} problemas' },
+  'tags.clear': 'Limpar',
+  'tags.start': 'Começar sessão',
+
+  'token.play': 'Ouvir {token}',
+  'token.playPronunciation': 'Ouvir a pronúncia',
+  'token.locked': '{token} (fixa)',
+  'token.fallback': 'A palavra',
+
+  'tap.answer': 'A sua resposta',
+  'tap.bank': 'Banco de palavras',
+  'tap.placeholder': 'Toque nas palavras abaixo, por ordem, para construir a frase.',
+  'tap.place': 'Colocar {token}',
+  'tap.sendBack': 'Devolver {token}',
+  'tap.discard': 'Descartar {token}',
+  'tap.discardInstructions': 'Toque em ✕ nas palavras que não pertencem à frase.',
+
+  'discard.label': 'Descartadas',
+  'discard.tokens': 'Palavras descartadas',
+  'discard.restore': 'Repor {token}',
+  'discard.locked': '{token} (descartada)',
+  'discard.dragInstructions': 'Arraste para aqui as palavras que não pertencem à frase.',
+
+  'keyboard.instructions':
+    'Prima Espaço para pegar numa palavra. Mova-a com as setas, Home ou End e prima Enter para a largar ' +
+    'ou Escape para cancelar. Quando houver descartadas, prima Delete ou Retrocesso para a descartar.',
+  'keyboard.pickedUp': 'Pegou em {token}, posição {position} de {total}.',
+  'keyboard.moveHelp': 'Use as setas, Home ou End para a mover, Enter para a largar ou Escape para cancelar.',
+  'keyboard.discardHelp': 'Prima Delete para a descartar.',
+  'keyboard.movedAfter': '{token} passou para depois de {previous}, posição {position} de {total}',
+  'keyboard.movedToStart': '{token} passou para o início, posição {position} de {total}',
+  'keyboard.alreadyAt': '{token} já está na posição {position} de {total}.',
+  'keyboard.dropped': 'Largada.',
+  'keyboard.droppedInPlace': '{token} largada na posição original.',
+  'keyboard.cancelled': 'Movimento cancelado. {token} voltou à posição {position} de {total}.',
+
+  'drag.pickedUp': 'Pegou em {token}.',
+  'drag.overNothing': '{token} já não está sobre nenhum destino.',
+  'drag.overDiscard': '{token} está sobre as descartadas.',
+  'drag.over': '{token} está sobre {target}.',
+  'drag.cancelled': 'O movimento de {token} foi cancelado.',
+  'drag.discarded': '{token} descartada.',
+
+  'challenge.eyebrow': 'Ponha-se à prova',
+  'challenge.sprint': 'Contrarrelógio',
+  'challenge.sprintDescription':
+    'Resolva o máximo de frases que conseguir em {duration}. As respostas erradas só custam tempo, ' +
+    'e pode saltar frases.',
+  'challenge.streak': 'Sequência perfeita',
+  'challenge.streakDescription':
+    'Resolva frase após frase à primeira tentativa. Uma única palavra fora do lugar termina a partida.',
+  'challenge.endTime': 'O tempo acabou.',
+  'challenge.endMistake': 'Havia uma palavra fora do lugar.',
+  'challenge.endCompleted': 'Resolveu todas as frases do pacote.',
+  'challenge.sprintScore': { one: '{count} frase resolvida', other: '{count} frases resolvidas' },
+  'challenge.streakScore': { one: '{count} frase seguida', other: '{count} frases seguidas' },
+  'challenge.noProblemsDetail': 'Os desafios usam as frases do pacote atual.',
+  'challenge.newBest': 'Novo recorde pessoal!',
+  'challenge.bests': 'Recordes pessoais',
+  'challenge.best': 'Recorde: {score}',
+  'challenge.playAgain': 'Jogar outra vez',
+  'challenge.chooseMode': 'Escolher outro modo',
+  'challenge.correct': 'Certo!',
+  'challenge.notQuite': 'Ainda não. Continue.',
+  'challenge.skip': 'Saltar',
+  'challenge.quit': 'Sair',
+
+  'stats.eyebrow': 'O seu progresso',
+
+  'duration.seconds': '{seconds} s',
+  'duration.minutes': '{minutes} min {seconds} s',
+  'stats.emptyTitle': 'Ainda não há tentativas registadas',
+  'stats.emptyDetail': 'Resolva algumas frases e as suas estatísticas aparecem aqui.',
+  'stats.attempts': 'Tentativas',
+  'stats.solved': 'Frases resolvidas',
+  'stats.cleanSolves': 'Resolvidas sem dicas',
+  'stats.averageTime': 'Tempo médio',
+  'stats.perProblem': 'Tentativas por problema',
+  'stats.problemColumn': 'Problema',
+  'stats.attemptsColumn': 'Tentativas',
+  'stats.solvesColumn': 'Resolvidas',
+  'stats.timeColumn': 'Tempo méd.',
+  'stats.hintsColumn': 'Dicas',
+  'stats.skipsColumn': 'Saltos',
+  'stats.hinted': '({count} com dicas)',
+  'stats.hardest': 'Palavras mais vezes fora do lugar',
+  'stats.misses': { one: '{count} erro', other: '{count} erros' },
+}
+
+export const CATALOGS: Record<Locale, Catalog> = {
+  en,
+  'pt-PT': ptPT,
+}
@@ -0,0 +1,129 @@
+import { CATALOGS, DEFAULT_LOCALE, LOCALES, type EnglishCatalog, type Locale, type MessageKey } from './messages'
+
+type Placeholders<T extends string> = T extends `${string}{${infer Name}}${infer Rest}`
+  ? Name | Placeholders<Rest>
+  : never
+
+type MessageText<M> = M extends string ? M : M[keyof M] & string
+
+/**
+ * Parameters a message needs: one per placeholder, plus `count` for plural
+ * messages.
+ */
+export type MessageParams<K extends MessageKey> = Record<
+  Placeholders<MessageText<EnglishCatalog[K]>> | (EnglishCatalog[K] extends string ? never : 'count'),
+  string | number
+>
+
+type ParamsArgument<K extends MessageKey> = [keyof MessageParams<K>] extends [never] ? [] : [MessageParams<K>]
+
+/**
+ * Keys of messages without parameters, for tables of labels.
+ */
+export type PlainMessageKey = {
+  [K in MessageKey]: ParamsArgument<K> extends [] ? K : never
+}[MessageKey]
+
+export type Translate = <K extends MessageKey>(key: K, ...params: ParamsArgument<K>) => string
+
+/**
+ * A message key with its parameters, for text produced outside components
+ * and translated where it is shown.
+ */
+export type MessageDescriptor = {
+  [K in MessageKey]: ParamsArgument<K> extends [] ? { key: K } : { key: K; params: MessageParams<K> }
+}[MessageKey]
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value)
+}
+
+/**
+ * Picks the interface language from the browser's preferred languages. Any
+ * Portuguese variant gets the European Portuguese interface, the variety the
+ * app teaches; everything else falls back to English.
+ */
+export function detectLocale(languages: readonly string[] = getBrowserLanguages()): Locale {
+  for (const language of languages) {
+    const [primary] = language.toLowerCase().split(/[-_]/)
+    if (primary === 'pt') {
+      return 'pt-PT'
+    }
+
+    if (primary === 'en') {
+      return 'en'
+    }
+  }
+
+  return DEFAULT_LOCALE
+}
+
+function getBrowserLanguages(): readonly string[] {
+  if (typeof navigator === 'undefined') {
+    return []
+  }
+
+  return navigator.languages?.length ? navigator.languages : [navigator.language]
+}
+
+/**
+ * Creates `t` for a locale. Plural messages pick their form from `count`
+ * with the locale's plural rules. A message missing from the catalog falls
+ * back to English.
+ */
+export function createTranslator(locale: Locale): Translate {
+  const catalog = CATALOGS[locale]
+  const pluralRules = new Intl.PluralRules(locale)
+
+  return ((key: MessageKey, params: Record<string, string | number> = {}) => {
+    const message = catalog[key] ?? CATALOGS[DEFAULT_LOCALE][key]
+    const template =
+      typeof message === 'string' ? message : message[pluralRules.select(Number(params.count ?? 0))] ?? message.other
+
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      name in params ? String(params[name]) : placeholder,
+    )
+  }) as Translate
+}
+
+export function formatMessage(t: Translate, message: MessageDescriptor): string {
+  const translate = t as (key: MessageKey, params?: Record<string, string | number>) => string
+  return translate(message.key, 'params' in message ? message.params : undefined)
+}
+
+/**
+ * An error the learner may see. `message` holds the English text, for logs;
+ * `translate` gives the text in the interface language.
+ */
+export class TranslatableError extends Error {
+  readonly description: MessageDescriptor
+
+  constructor(description: MessageDescriptor) {
+    super(formatMessage(createTranslator(DEFAULT_LOCALE), description))
+    this.name = 'TranslatableError'
+    this.description = description
+  }
+
+  translate(t: Translate): string {
+    return formatMessage(t, this.description)
+  }
+
+  /**
+   * Subclasses that override `translate` call this once their own fields are
+   * set, so `message` matches.
+   */
+  protected updateMessage() {
+    this.message = this.translate(createTranslator(DEFAULT_LOCALE))
+  }
+}
+
+/**
+ * Text for an error caught while loading or reading data.
+ */
+export function describeError(error: unknown, t: Translate): string {
+  if (error instanceof TranslatableError) {
+    return error.translate(t)
+  }
+
+  return error instanceof Error && error.message !== '' ? error.message : t('status.unknownError')
+}
@@ -1,25 +1,21 @@
 import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App'
+import { migrateCustomPackIds } from './data/storage'
+import { I18nProvider } from './i18n/I18nProvider'
 import './index.css'
 
+// Runs before any state is read from storage.
+try {
+  migrateCustomPackIds(window.localStorage)
+} catch (error) {
+  console.warn('Unable to migrate imported packs.', error)
+}
+
 ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
   <React.StrictMode>
-    <App />
+    <I18nProvider>
+      <App />
+    </I18nProvider>
   </React.StrictMode>,
 )
-
-if ('serviceWorker' in navigator && import.meta.env.PROD) {
-  const registerServiceWorker = () => {
-    const serviceWorkerUrl = `${import.meta.env.BASE_URL}service-worker.js`
-    navigator.serviceWorker.register(serviceWorkerUrl).catch((error) => {
-      console.error('Service worker registration failed:', error)
-    })
-  }
-
-  if (document.readyState === 'complete') {
-    registerServiceWorker()
-  } else {
-    window.addEventListener('load', registerServiceWorker, { once: true })
-  }
-}
@@ -0,0 +1,169 @@
+/**
+ * Template for the service worker. The build replaces the placeholder below
+ * with every file the app needs offline: the hashed bundles from the Vite
+ * manifest, index.html and the public files, each with a content revision.
+ * See build/service-worker-plugin.ts.
+ */
+const PRECACHE_MANIFEST = self.__PRECACHE_MANIFEST
+const PRECACHE = 'precache'
+const RUNTIME_CACHE = 'runtime'
+const REVISION_PARAM = '__revision'
+// Read by fetchProblems in src/data/problems.ts.
+const SERVED_FROM_HEADER = 'X-Served-From'
+const CACHED_AT_HEADER = 'X-Cached-At'
+const INDEX_URL = new URL('./index.html', self.registration.scope).href
+
+/**
+ * Maps each precached URL to its cache key. Files whose name already carries
+ * a hash are stored under their URL; the others get their revision appended,
+ * so an unchanged file is reused by the next version and a changed one is
+ * fetched again.
+ */
+const PRECACHE_KEYS = new Map(
+  PRECACHE_MANIFEST.map(({ url, revision }) => {
+    const resolved = new URL(url, self.registration.scope)
+    const key = new URL(resolved)
+    if (revision) {
+      key.searchParams.set(REVISION_PARAM, revision)
+    }
+    return [resolved.href, key.href]
+  }),
+)
+
+self.addEventListener('install', (event) => {
+  // The new version waits until the app asks it to take over, so a session in
+  // progress keeps running the code it started with.
+  event.waitUntil(precache())
+})
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cacheNames = await caches.keys()
+      await Promise.all(
+        cacheNames.filter((name) => name !== PRECACHE && name !== RUNTIME_CACHE).map((name) => caches.delete(name)),
+      )
+      await removeOutdatedEntries()
+      await self.clients.claim()
+    })(),
+  )
+})
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting()
+  }
+})
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event
+
+  if (request.method !== 'GET') {
+    return
+  }
+
+  if (isProblemData(request)) {
+    event.respondWith(networkFirst(event))
+    return
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(matchPrecache(INDEX_URL).then((response) => response ?? fetch(request)))
+    return
+  }
+
+  event.respondWith(cacheFirst(request))
+})
+
+function isProblemData(request) {
+  const url = new URL(request.url)
+  return url.origin === self.location.origin && /\.(json|csv|txt)$/.test(url.pathname)
+}
+
+async function precache() {
+  const cache = await caches.open(PRECACHE)
+  await Promise.all(
+    [...PRECACHE_KEYS].map(async ([url, key]) => {
+      if (await cache.match(key)) {
+        return
+      }
+
+      const response = await fetch(url, { cache: 'reload' })
+      if (!response.ok) {
+        throw new Error(`Unable to precache ${url} (${response.status}).`)
+      }
+      await cache.put(key, response)
+    }),
+  )
+}
+
+async function removeOutdatedEntries() {
+  const cache = await caches.open(PRECACHE)
+  const currentKeys = new Set(PRECACHE_KEYS.values())
+  const requests = await cache.keys()
+  await Promise.all(requests.filter((request) => !currentKeys.has(request.url)).map((request) => cache.delete(request)))
+}
+
+async function matchPrecache(url) {
+  const key = PRECACHE_KEYS.get(url)
+  if (!key) {
+    return undefined
+  }
+
+  const cache = await caches.open(PRECACHE)
+  return cache.match(key)
+}
+
+async function cacheFirst(request) {
+  const precachedResponse = await matchPrecache(request.url)
+  if (precachedResponse) {
+    return precachedResponse
+  }
+
+  const cache = await caches.open(RUNTIME_CACHE)
+  const cachedResponse = await cache.match(request)
+  if (cachedResponse) {
+    return cachedResponse
+  }
+
+  const networkResponse = await fetch(request)
+  if (networkResponse && networkResponse.ok) {
+    cache.put(request, networkResponse.clone())
+  }
+  return networkResponse
+}
+
+async function withHeader(response, name, value) {
+  const headers = new Headers(response.headers)
+  headers.set(name, value)
+  return new Response(await response.blob(), { status: response.status, statusText: response.statusText, headers })
+}
+
+/**
+ * Problem data is always fetched fresh when possible. Copies are stamped with
+ * the time they were saved, and an offline answer is marked as coming from
+ * the cache, so the app can tell the learner how old its problems are.
+ */
+async function networkFirst(event) {
+  const { request } = event
+  const cache = await caches.open(RUNTIME_CACHE)
+  try {
+    const networkResponse = await fetch(request)
+    if (networkResponse && networkResponse.ok) {
+      // Keeps the worker alive until the copy is saved; a failed save only
+      // means there is no offline copy.
+      event.waitUntil(
+        withHeader(networkResponse.clone(), CACHED_AT_HEADER, String(Date.now()))
+          .then((stamped) => cache.put(request, stamped))
+          .catch((error) => console.warn(`Unable to cache ${request.url}.`, error)),
+      )
+    }
+    return networkResponse
+  } catch (error) {
+    const cachedResponse = (await cache.match(request)) ?? (await matchPrecache(request.url))
+    if (cachedResponse) {
+      return withHeader(cachedResponse, SERVED_FROM_HEADER, 'cache')
+    }
+    throw error
+  }
+}
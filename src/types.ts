@@ -1,12 +1,102 @@
+/**
+ * Half-open range of solution token positions, expressed as `[start, end)`.
+ */
+export type TokenSpan = [start: number, end: number]
+
+/**
+ * Two non-overlapping spans of the canonical ordering that may trade places,
+ * e.g. independent sentences or a movable time expression.
+ */
+export interface SpanSwap {
+  first: TokenSpan
+  second: TokenSpan
+}
+
 export interface Problem {
+  /**
+   * Optional stable identifier. When omitted the problem is identified by a
+   * hash of its tokens.
+   */
+  id?: string
   tokens: string[]
   note: string
+  /**
+   * Extra accepted orderings. Each entry lists every token string exactly
+   * once, in the alternative order.
+   */
+  alternatives?: string[][]
+  /**
+   * Span pairs that may be swapped relative to the canonical ordering. Any
+   * combination of the listed swaps is accepted.
+   */
+  swaps?: SpanSwap[]
+  /**
+   * English translation of the whole sentence, shown as the prompt.
+   */
+  translation?: string
+  /**
+   * Short English glosses keyed by token text, e.g. `"na": "in the (fem.)"`.
+   */
+  glosses?: Record<string, string>
+  /**
+   * Grammar topics the problem practises, e.g. `reflexive` or
+   * `contraction:em`.
+   */
+  tags?: string[]
+  /**
+   * Wrong forms dealt onto the board alongside the tokens, e.g. "no" next to
+   * "na". The learner has to discard them. None may equal one of the tokens.
+   */
+  distractors?: string[]
 }
 
 export type ProblemSet = Problem[]
 
+export interface PackSummary {
+  id: string
+  title: string
+  description: string
+  /**
+   * CEFR-style level label, e.g. "A1".
+   */
+  level: string
+}
+
+export interface ProblemPack extends PackSummary {
+  /**
+   * Location of the pack's problem file, relative to the app's base URL.
+   */
+  url: string
+}
+
+/**
+ * A problem set imported by the learner and stored locally. Its id is the
+ * problem set hash, so re-importing the same content reuses its progress.
+ */
+export interface CustomProblemPack extends PackSummary {
+  problems: ProblemSet
+  importedAt: number
+}
+
 export type ColorScheme = 'light' | 'dark'
 
+/**
+ * Applied through the root `data-theme` attribute. High contrast marks
+ * locked tokens with a pattern and an icon, not colour alone.
+ */
+export type Theme = ColorScheme | 'high-contrast'
+
+/**
+ * The learner's theme choice; `system` follows `prefers-color-scheme`.
+ */
+export type ThemePreference = Theme | 'system'
+
+/**
+ * How tokens are arranged: dragging them into place, or tapping them from a
+ * bank onto an answer line.
+ */
+export type InputMode = 'drag' | 'tap'
+
 export interface TokenFragment {
   /**
    * Unique identifier derived from the indices contained in the fragment.
@@ -15,7 +105,9 @@ export interface TokenFragment {
    */
   id: string
   /**
-   * Original token indices represented by this fragment in ascending order.
+   * Original token indices represented by this fragment, in the order they
+   * are displayed. This is ascending for the canonical ordering but follows
+   * the matched solution when an alternative ordering was accepted.
    */
   indices: number[]
   /**
@@ -0,0 +1,206 @@
+import type { Translate } from '../i18n/translate'
+import type { Problem } from '../types'
+
+export interface AttemptRecord {
+  /**
+   * Epoch milliseconds at which Solve was pressed.
+   */
+  at: number
+  lockedCount: number
+  totalTokens: number
+  /**
+   * Original token indices that were still out of place after evaluation.
+   */
+  misplaced: number[]
+}
+
+export interface ProblemHistory {
+  attempts: AttemptRecord[]
+  /**
+   * Milliseconds between the problem first being shown and it being solved,
+   * one entry per completed solve.
+   */
+  solveTimes: number[]
+  skips: number
+  /**
+   * Hints requested across every session. Missing from histories recorded
+   * before hints existed.
+   */
+  hints?: number
+  /**
+   * Solves that needed at least one hint; these are also counted in
+   * `solveTimes`.
+   */
+  hintedSolves?: number
+}
+
+/**
+ * Attempt history keyed by problem id.
+ */
+export type HistoryStore = Record<string, ProblemHistory>
+
+export interface ProblemSummary {
+  attempts: number
+  solves: number
+  skips: number
+  hints: number
+  hintedSolves: number
+  averageSolveTime: number | null
+}
+
+export interface TokenDifficulty {
+  token: string
+  misses: number
+}
+
+const MAX_ATTEMPTS_PER_PROBLEM = 200
+
+function createEmptyHistory(): ProblemHistory {
+  return { attempts: [], solveTimes: [], skips: 0, hints: 0, hintedSolves: 0 }
+}
+
+function updateHistory(
+  store: HistoryStore,
+  problemId: string,
+  update: (history: ProblemHistory) => ProblemHistory,
+): HistoryStore {
+  return { ...store, [problemId]: update(store[problemId] ?? createEmptyHistory()) }
+}
+
+export function recordAttempt(store: HistoryStore, problemId: string, attempt: AttemptRecord): HistoryStore {
+  return updateHistory(store, problemId, (history) => ({
+    ...history,
+    attempts: [...history.attempts, attempt].slice(-MAX_ATTEMPTS_PER_PROBLEM),
+  }))
+}
+
+export function recordSolveTime(
+  store: HistoryStore,
+  problemId: string,
+  duration: number,
+  hinted = false,
+): HistoryStore {
+  return updateHistory(store, problemId, (history) => ({
+    ...history,
+    solveTimes: [...history.solveTimes, duration].slice(-MAX_ATTEMPTS_PER_PROBLEM),
+    hintedSolves: (history.hintedSolves ?? 0) + (hinted ? 1 : 0),
+  }))
+}
+
+export function recordSkip(store: HistoryStore, problemId: string): HistoryStore {
+  return updateHistory(store, problemId, (history) => ({ ...history, skips: history.skips + 1 }))
+}
+
+export function recordHint(store: HistoryStore, problemId: string): HistoryStore {
+  return updateHistory(store, problemId, (history) => ({ ...history, hints: (history.hints ?? 0) + 1 }))
+}
+
+function mergeProblemHistory(current: ProblemHistory, incoming: ProblemHistory): ProblemHistory {
+  const seen = new Set(current.attempts.map((attempt) => attempt.at))
+  const attempts = [...current.attempts, ...incoming.attempts.filter((attempt) => !seen.has(attempt.at))]
+    .sort((a, b) => a.at - b.at)
+    .slice(-MAX_ATTEMPTS_PER_PROBLEM)
+
+  return {
+    attempts,
+    solveTimes: incoming.solveTimes.length >= current.solveTimes.length ? incoming.solveTimes : current.solveTimes,
+    skips: Math.max(current.skips, incoming.skips),
+    hints: Math.max(current.hints ?? 0, incoming.hints ?? 0),
+    hintedSolves: Math.max(current.hintedSolves ?? 0, incoming.hintedSolves ?? 0),
+  }
+}
+
+/**
+ * Combines two copies of the history written concurrently, e.g. by two open
+ * tabs. Attempts are joined by timestamp and counters keep the larger value,
+ * so nothing recorded in either copy is lost.
+ */
+export function mergeHistory(current: HistoryStore, incoming: HistoryStore): HistoryStore {
+  const merged = { ...current }
+  Object.entries(incoming).forEach(([problemId, history]) => {
+    merged[problemId] = merged[problemId] ? mergeProblemHistory(merged[problemId], history) : history
+  })
+
+  return merged
+}
+
+export function summarizeHistory(history: ProblemHistory | undefined): ProblemSummary {
+  if (!history) {
+    return { attempts: 0, solves: 0, skips: 0, hints: 0, hintedSolves: 0, averageSolveTime: null }
+  }
+
+  const totalTime = history.solveTimes.reduce((sum, duration) => sum + duration, 0)
+
+  return {
+    attempts: history.attempts.length,
+    solves: history.solveTimes.length,
+    skips: history.skips,
+    hints: history.hints ?? 0,
+    hintedSolves: history.hintedSolves ?? 0,
+    averageSolveTime: history.solveTimes.length > 0 ? totalTime / history.solveTimes.length : null,
+  }
+}
+
+/**
+ * Tallies how often each token string was left out of place across every
+ * recorded attempt. Tokens are compared case-insensitively so "Sou" and
+ * "sou" count as the same word.
+ */
+export function findHardestTokens(
+  problems: readonly Problem[],
+  getProblemId: (problem: Problem) => string,
+  store: HistoryStore,
+  limit: number,
+): TokenDifficulty[] {
+  const misses = new Map<string, number>()
+
+  problems.forEach((problem) => {
+    const history = store[getProblemId(problem)]
+    history?.attempts.forEach((attempt) => {
+      attempt.misplaced.forEach((index) => {
+        const token = problem.tokens[index]
+        if (token === undefined) {
+          return
+        }
+
+        const key = token.toLocaleLowerCase('pt-PT')
+        misses.set(key, (misses.get(key) ?? 0) + 1)
+      })
+    })
+  })
+
+  return Array.from(misses, ([token, count]) => ({ token, misses: count }))
+    .sort((a, b) => b.misses - a.misses || a.token.localeCompare(b.token, 'pt-PT'))
+    .slice(0, limit)
+}
+
+const AGE_UNITS: ReadonlyArray<{ unit: Intl.RelativeTimeFormatUnit; milliseconds: number }> = [
+  { unit: 'day', milliseconds: 24 * 60 * 60 * 1000 },
+  { unit: 'hour', milliseconds: 60 * 60 * 1000 },
+  { unit: 'minute', milliseconds: 60 * 1000 },
+]
+
+/**
+ * Describes how long ago something happened in the given locale, e.g.
+ * "3 hours ago". Anything under a minute is "this minute".
+ */
+export function formatAge(milliseconds: number, locale = 'en'): string {
+  const formatter = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' })
+  const match = AGE_UNITS.find((entry) => milliseconds >= entry.milliseconds)
+
+  return match
+    ? formatter.format(-Math.floor(milliseconds / match.milliseconds), match.unit)
+    : formatter.format(0, 'minute')
+}
+
+export function formatDuration(milliseconds: number, t: Translate): string {
+  const totalSeconds = Math.round(milliseconds / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+
+  if (minutes === 0) {
+    return t('duration.seconds', { seconds })
+  }
+
+  return t('duration.minutes', { minutes, seconds: seconds.toString().padStart(2, '0') })
+}
@@ -0,0 +1,115 @@
+import type { Translate } from '../i18n/translate'
+import type { Problem } from '../types'
+
+/**
+ * A problem being authored in the editor. Token boundaries are character
+ * offsets into `sentence`: a break at offset `i` starts a new token at
+ * `sentence[i]`.
+ */
+export interface ProblemDraft {
+  key: string
+  sentence: string
+  note: string
+  breaks: number[]
+}
+
+export interface SentenceWord {
+  text: string
+  /**
+   * Offset of the word's first character within the sentence.
+   */
+  start: number
+}
+
+export function createDraftKey(): string {
+  return `draft-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function splitWords(sentence: string): SentenceWord[] {
+  return Array.from(sentence.matchAll(/\S+/g), (match) => ({ text: match[0], start: match.index ?? 0 }))
+}
+
+/**
+ * Breaks before every word except the first, i.e. plain whitespace
+ * tokenization.
+ */
+export function getDefaultBreaks(sentence: string): number[] {
+  return splitWords(sentence)
+    .slice(1)
+    .map((word) => word.start)
+}
+
+/**
+ * Drops breaks that no longer fall on a character boundary inside the text,
+ * e.g. after the sentence was edited.
+ */
+export function sanitizeBreaks(sentence: string, breaks: readonly number[]): number[] {
+  const valid = new Set<number>()
+  breaks.forEach((offset) => {
+    if (offset > 0 && offset < sentence.length && /\S/.test(sentence[offset])) {
+      valid.add(offset)
+    }
+  })
+
+  return Array.from(valid).sort((a, b) => a - b)
+}
+
+export function toggleBreak(breaks: readonly number[], offset: number): number[] {
+  return breaks.includes(offset)
+    ? breaks.filter((entry) => entry !== offset)
+    : [...breaks, offset].sort((a, b) => a - b)
+}
+
+export function tokenizeSentence(sentence: string, breaks: readonly number[]): string[] {
+  const offsets = [0, ...sanitizeBreaks(sentence, breaks), sentence.length]
+
+  return offsets
+    .slice(0, -1)
+    .map((start, index) => sentence.slice(start, offsets[index + 1]).replace(/\s+/g, ' ').trim())
+    .filter((token) => token !== '')
+}
+
+export function createDraft(sentence = '', note = ''): ProblemDraft {
+  return { key: createDraftKey(), sentence, note, breaks: getDefaultBreaks(sentence) }
+}
+
+export function draftToProblem(draft: ProblemDraft): Problem {
+  return { tokens: tokenizeSentence(draft.sentence, draft.breaks), note: draft.note.trim() }
+}
+
+/**
+ * Flags problems that cannot be reordered in a meaningful way or that rely on
+ * duplicate tokens, which evaluation treats as interchangeable.
+ */
+export function getDraftWarnings(problem: Problem, t: Translate): string[] {
+  const { tokens } = problem
+  const warnings: string[] = []
+
+  if (tokens.length === 0) {
+    return [t('editor.emptySentence')]
+  }
+
+  if (tokens.length === 1) {
+    warnings.push(t('editor.singleToken'))
+  } else if (tokens.every((token) => token === tokens[0])) {
+    warnings.push(t('editor.identicalTokens'))
+  } else {
+    const counts = new Map<string, number>()
+    tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1))
+    counts.forEach((count, token) => {
+      if (count > 1) {
+        warnings.push(t('editor.duplicateToken', { token, count }))
+      }
+    })
+  }
+
+  if (problem.note === '') {
+    warnings.push(t('editor.emptyNote'))
+  }
+
+  return warnings
+}
+
+export function serializeProblems(problems: readonly Problem[]): string {
+  return `${JSON.stringify(problems, null, 2)}\n`
+}
@@ -0,0 +1,173 @@
+import { getProblemId } from '../data/problems'
+import type { Problem, TokenFragment } from '../types'
+import { evaluateFragments, type SolutionOrder } from './evaluate'
+import { createInitialFragments } from './session'
+import { shuffle } from './shuffle'
+
+/**
+ * Competitive variants of practice. A sprint scores how many problems are
+ * solved before the countdown runs out; wrong Solve presses only cost time
+ * and problems may be skipped. A streak scores consecutive problems solved
+ * on the first Solve press and ends at the first press with a misplaced
+ * token.
+ */
+export type ChallengeMode = 'sprint' | 'streak'
+
+export const CHALLENGE_MODES: readonly ChallengeMode[] = ['sprint', 'streak']
+
+export type ChallengeEndReason = 'time' | 'mistake' | 'completed'
+
+export const SPRINT_DURATION_MS = 90 * 1000
+
+export interface ChallengeRun {
+  mode: ChallengeMode
+  seed: string
+  startedAt: number
+  /**
+   * Epoch milliseconds at which a sprint runs out of time; null for streaks.
+   */
+  endsAt: number | null
+  /**
+   * Problem ids in the order they are presented.
+   */
+  order: string[]
+  position: number
+  fragments: TokenFragment[]
+  /**
+   * Answer line length when playing in tap-to-place mode.
+   */
+  placedTokens: number
+  score: number
+  attempts: number
+  endedAt: number | null
+  endReason: ChallengeEndReason | null
+}
+
+export interface PersonalBest {
+  score: number
+  attempts: number
+  /**
+   * Epoch milliseconds at which the run ended.
+   */
+  achievedAt: number
+  duration: number
+}
+
+/**
+ * Best runs keyed by `createBestKey`, highest score first.
+ */
+export type PersonalBestStore = Record<string, PersonalBest[]>
+
+const MAX_BESTS_PER_KEY = 10
+
+export function createBestKey(mode: ChallengeMode, packId: string): string {
+  return `${mode}:${packId}`
+}
+
+function prepareProblem(run: ChallengeRun, problemsById: ReadonlyMap<string, Problem>): ChallengeRun {
+  const problem = problemsById.get(run.order[run.position])
+  const fragments = problem ? createInitialFragments(problem, `${run.seed}-${run.position}`) : []
+  return { ...run, fragments, placedTokens: 0 }
+}
+
+function endRun(run: ChallengeRun, reason: ChallengeEndReason, now: number): ChallengeRun {
+  return run.endedAt === null ? { ...run, endedAt: now, endReason: reason } : run
+}
+
+function advance(run: ChallengeRun, problemsById: ReadonlyMap<string, Problem>, now: number): ChallengeRun {
+  const next = { ...run, position: run.position + 1 }
+  return next.position >= next.order.length ? endRun(next, 'completed', now) : prepareProblem(next, problemsById)
+}
+
+export function startChallenge(
+  mode: ChallengeMode,
+  problems: readonly Problem[],
+  seed: string,
+  now: number,
+): ChallengeRun {
+  const run: ChallengeRun = {
+    mode,
+    seed,
+    startedAt: now,
+    endsAt: mode === 'sprint' ? now + SPRINT_DURATION_MS : null,
+    order: shuffle(problems.map(getProblemId), seed),
+    position: 0,
+    fragments: [],
+    placedTokens: 0,
+    score: 0,
+    attempts: 0,
+    endedAt: null,
+    endReason: null,
+  }
+
+  return prepareProblem(run, new Map(problems.map((problem) => [getProblemId(problem), problem])))
+}
+
+export function getChallengeProblemId(run: ChallengeRun): string | null {
+  return run.endedAt === null ? run.order[run.position] ?? null : null
+}
+
+/**
+ * Applies a Solve press. Returns the updated run and whether the press
+ * solved the problem, so callers can give feedback. A press after the sprint
+ * deadline ends the run instead of counting, however late the timer ticks.
+ */
+export function submitChallenge(
+  previous: ChallengeRun,
+  problemsById: ReadonlyMap<string, Problem>,
+  acceptedOrders: readonly SolutionOrder[],
+  judgedLength: number,
+  now: number,
+): { run: ChallengeRun; solved: boolean } {
+  const run = expireChallenge(previous, now)
+  const problem = problemsById.get(run.order[run.position])
+  if (!problem || run.endedAt !== null) {
+    return { run, solved: false }
+  }
+
+  const evaluation = evaluateFragments(run.fragments, problem.tokens, acceptedOrders, { judgedLength })
+  const evaluated = { ...run, fragments: evaluation.fragments, attempts: run.attempts + 1 }
+
+  if (evaluation.isSolved) {
+    return { run: advance({ ...evaluated, score: run.score + 1 }, problemsById, now), solved: true }
+  }
+
+  return { run: run.mode === 'streak' ? endRun(evaluated, 'mistake', now) : evaluated, solved: false }
+}
+
+/**
+ * Sprints may skip a problem; it is moved to the end of the order so it can
+ * come back if time allows.
+ */
+export function skipChallenge(
+  run: ChallengeRun,
+  problemsById: ReadonlyMap<string, Problem>,
+): ChallengeRun {
+  if (run.mode !== 'sprint' || run.endedAt !== null || run.order.length < 2) {
+    return run
+  }
+
+  const current = run.order[run.position]
+  const order = [...run.order.slice(0, run.position), ...run.order.slice(run.position + 1), current]
+  return prepareProblem({ ...run, order }, problemsById)
+}
+
+export function expireChallenge(run: ChallengeRun, now: number): ChallengeRun {
+  return run.endsAt !== null && now >= run.endsAt ? endRun(run, 'time', run.endsAt) : run
+}
+
+export function getRemainingTime(run: ChallengeRun, now: number): number | null {
+  return run.endsAt === null ? null : Math.max(0, run.endsAt - (run.endedAt ?? now))
+}
+
+export function recordPersonalBest(store: PersonalBestStore, key: string, entry: PersonalBest): PersonalBestStore {
+  const entries = [...(store[key] ?? []), entry]
+    .sort((a, b) => b.score - a.score || a.attempts - b.attempts || a.achievedAt - b.achievedAt)
+    .slice(0, MAX_BESTS_PER_KEY)
+
+  return { ...store, [key]: entries }
+}
+
+export function getPersonalBest(store: PersonalBestStore, key: string): PersonalBest | null {
+  return store[key]?.[0] ?? null
+}
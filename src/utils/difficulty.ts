@@ -0,0 +1,160 @@
+import type { Problem } from '../types'
+import type { SolutionOrder } from './evaluate'
+import { shuffle } from './shuffle'
+
+/**
+ * How much help the board gives. Easy pre-locks the first and last tokens and
+ * joins short function words to the word they introduce, so "O meu
+ * telemóvel" arrives as one fragment, and leaves distractors out. Normal
+ * shuffles every token on its own, along with the distractors the problem
+ * declares. Hard adds more distractors, wrong forms such as "no" for "na",
+ * that the learner has to discard.
+ */
+export type Difficulty = 'easy' | 'normal' | 'hard'
+
+export const DEFAULT_DIFFICULTY: Difficulty = 'normal'
+
+/**
+ * Shorter sentences are not anchored: locking both ends would leave almost
+ * nothing to arrange.
+ */
+const MIN_ANCHORED_LENGTH = 4
+
+const MAX_DISTRACTORS = 2
+
+/**
+ * Articles, possessives and prepositions that always lean on the next word.
+ */
+const LEADING_WORDS = new Set([
+  'o', 'a', 'os', 'as', 'um', 'uma', 'uns', 'umas',
+  'meu', 'minha', 'meus', 'minhas', 'teu', 'tua', 'teus', 'tuas',
+  'seu', 'sua', 'seus', 'suas', 'nosso', 'nossa', 'nossos', 'nossas',
+  'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na', 'nos', 'nas', 'num', 'numa',
+  'ao', 'aos', 'à', 'às', 'pelo', 'pela', 'pelos', 'pelas', 'por', 'para', 'com',
+])
+
+/**
+ * Forms learners mix up. Each pair is used in both directions.
+ */
+const CONFUSABLE_PAIRS: ReadonlyArray<readonly [string, string]> = [
+  ['na', 'no'],
+  ['nas', 'nos'],
+  ['da', 'do'],
+  ['das', 'dos'],
+  ['à', 'ao'],
+  ['às', 'aos'],
+  ['pela', 'pelo'],
+  ['numa', 'num'],
+  ['desta', 'deste'],
+  ['nesta', 'neste'],
+  ['minha', 'meu'],
+  ['sou', 'estou'],
+  ['é', 'está'],
+  ['chamo-me', 'chama-se'],
+]
+
+const CONFUSABLES = new Map<string, string>(
+  CONFUSABLE_PAIRS.flatMap(([first, second]) => [
+    [first, second],
+    [second, first],
+  ]),
+)
+
+function isFixedPosition(orders: readonly SolutionOrder[], position: number): boolean {
+  return orders.every((order) => order[position] === orders[0][position])
+}
+
+/**
+ * Token indices locked in place from the start on easy. An end is only
+ * anchored when every accepted order starts (or finishes) with the same
+ * token.
+ */
+export function getAnchorIndices(problem: Problem, orders: readonly SolutionOrder[]): number[] {
+  const length = problem.tokens.length
+  if (length < MIN_ANCHORED_LENGTH || orders.length === 0) {
+    return []
+  }
+
+  return [0, length - 1]
+    .filter((position) => isFixedPosition(orders, position))
+    .map((position) => orders[0][position])
+}
+
+/**
+ * Groups the tokens that are not anchored into the fragments dealt on easy.
+ * A leading word is joined to the token after it when every accepted order
+ * keeps the two adjacent, so alternatives and swaps are never broken up.
+ * Falls back to single tokens when grouping would leave fewer than two
+ * fragments to arrange.
+ */
+export function getChunks(
+  problem: Problem,
+  orders: readonly SolutionOrder[],
+  anchors: readonly number[],
+): number[][] {
+  const { tokens } = problem
+  const positions = orders.map((order) => {
+    const lookup = new Map<number, number>()
+    order.forEach((index, position) => lookup.set(index, position))
+    return lookup
+  })
+  const isAdjacent = (before: number, after: number) =>
+    positions.every((lookup) => (lookup.get(before) ?? -1) + 1 === lookup.get(after))
+
+  const free = tokens.map((_, index) => index).filter((index) => !anchors.includes(index))
+  const chunks: number[][] = []
+
+  free.forEach((index) => {
+    const previous = chunks[chunks.length - 1]
+    const last = previous?.[previous.length - 1]
+    if (last !== undefined && LEADING_WORDS.has(tokens[last].toLowerCase()) && isAdjacent(last, index)) {
+      previous.push(index)
+      return
+    }
+
+    chunks.push([index])
+  })
+
+  return chunks.length < 2 ? free.map((index) => [index]) : chunks
+}
+
+function matchCase(replacement: string, original: string): string {
+  const first = original.charAt(0)
+  return first !== first.toLowerCase() ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement
+}
+
+/**
+ * Picks up to two wrong forms of words in the sentence for hard. Forms that
+ * already appear in the sentence or among the declared distractors are
+ * skipped, since the learner could not tell which copy to discard.
+ */
+function generateDistractors(problem: Problem, seed: string): string[] {
+  const present = new Set([...problem.tokens, ...(problem.distractors ?? [])])
+  const candidates = new Set<string>()
+
+  problem.tokens.forEach((token) => {
+    const confusable = CONFUSABLES.get(token.toLowerCase())
+    if (confusable === undefined) {
+      return
+    }
+
+    const distractor = matchCase(confusable, token)
+    if (!present.has(distractor)) {
+      candidates.add(distractor)
+    }
+  })
+
+  return shuffle([...candidates], seed).slice(0, MAX_DISTRACTORS)
+}
+
+/**
+ * Distractor texts dealt onto a board at the given difficulty.
+ */
+export function createDistractors(problem: Problem, difficulty: Difficulty, seed: string): string[] {
+  if (difficulty === 'easy') {
+    return []
+  }
+
+  const declared = problem.distractors ?? []
+  return difficulty === 'hard' ? [...declared, ...generateDistractors(problem, seed)] : [...declared]
+}
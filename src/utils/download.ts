@@ -0,0 +1,12 @@
+/**
+ * Saves text as a file through a temporary link.
+ */
+export function downloadText(text: string, fileName: string, type = 'application/json') {
+  const url = URL.createObjectURL(new Blob([text], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Some browsers abort the download when the URL is revoked straight away.
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -1,8 +1,21 @@
-import type { TokenFragment } from '../types'
+import type { Problem, SpanSwap, TokenFragment } from '../types'
 
 export interface EvaluationResult {
   fragments: TokenFragment[]
+  /**
+   * The discard area after evaluation: correctly discarded distractors,
+   * locked.
+   */
+  discarded: TokenFragment[]
+  /**
+   * Solution tokens locked in place; distractors are not counted.
+   */
   lockedCount: number
+  discardedCount: number
+  /**
+   * Solution tokens that had been discarded and were moved back to the line.
+   */
+  returnedCount: number
   isSolved: boolean
 }
 
@@ -15,51 +28,300 @@ export function createFragmentId(indices: readonly number[]): string {
   return `fragment-${normalized.join('-')}`
 }
 
+/**
+ * An accepted solution expressed as original token indices by position:
+ * `order[position]` is the index of the token that belongs there.
+ */
+export type SolutionOrder = number[]
+
+export function createCanonicalOrder(length: number): SolutionOrder {
+  return Array.from({ length }, (_, index) => index)
+}
+
+function applySwaps(length: number, swaps: readonly SpanSwap[]): SolutionOrder {
+  const replacements = new Map<number, { end: number; indices: number[] }>()
+  swaps.forEach(({ first, second }) => {
+    replacements.set(first[0], { end: first[1], indices: createRange(second) })
+    replacements.set(second[0], { end: second[1], indices: createRange(first) })
+  })
+
+  const order: SolutionOrder = []
+  let position = 0
+  while (position < length) {
+    const replacement = replacements.get(position)
+    if (replacement) {
+      order.push(...replacement.indices)
+      position = replacement.end
+    } else {
+      order.push(position)
+      position += 1
+    }
+  }
+
+  return order
+}
+
+function createRange([start, end]: readonly [number, number]): number[] {
+  return Array.from({ length: end - start }, (_, offset) => start + offset)
+}
+
+function mapAlternativeToOrder(tokens: readonly string[], alternative: readonly string[]): SolutionOrder {
+  const available = new Map<string, number[]>()
+  tokens.forEach((token, index) => {
+    const pool = available.get(token) ?? []
+    pool.push(index)
+    available.set(token, pool)
+  })
+
+  return alternative.map((token) => {
+    const index = available.get(token)?.shift()
+    if (index === undefined) {
+      throw new Error(`Alternative ordering uses a token that is not part of the problem: "${token}".`)
+    }
+
+    return index
+  })
+}
+
+/**
+ * Expands a problem into every ordering the learner may build: the canonical
+ * token order, each listed alternative, and every combination of the
+ * declared span swaps applied to the canonical order.
+ */
+export function getAcceptedOrders(problem: Problem): SolutionOrder[] {
+  const { tokens, alternatives = [], swaps = [] } = problem
+  const orders: SolutionOrder[] = [createCanonicalOrder(tokens.length)]
+  const seen = new Set<string>([orders[0].join(',')])
+
+  const addOrder = (order: SolutionOrder) => {
+    const key = order.join(',')
+    if (!seen.has(key)) {
+      seen.add(key)
+      orders.push(order)
+    }
+  }
+
+  alternatives.forEach((alternative) => addOrder(mapAlternativeToOrder(tokens, alternative)))
+
+  const combinations = 1 << swaps.length
+  for (let mask = 1; mask < combinations; mask += 1) {
+    addOrder(applySwaps(tokens.length, swaps.filter((_, index) => (mask & (1 << index)) !== 0)))
+  }
+
+  return orders
+}
+
+/**
+ * Reassigns original indices so that every correctly placed token owns the
+ * index the matched solution expects at that position. Identical token
+ * strings are interchangeable, so a correct position may be held by a
+ * duplicate of the expected token; that duplicate swaps identities with the
+ * one it displaced, which keeps the indices unique and the rendered text
+ * unchanged.
+ */
+function canonicalizeIndices(
+  orderedIndices: readonly number[],
+  tokensCorrect: readonly boolean[],
+  order: SolutionOrder,
+  solutionTokens: readonly string[],
+): number[] {
+  const claimed = new Set<number>()
+  tokensCorrect.forEach((correct, positionIndex) => {
+    if (correct) {
+      claimed.add(order[positionIndex])
+    }
+  })
+
+  const released = new Map<string, number[]>()
+  orderedIndices.forEach((originalIndex, positionIndex) => {
+    if (tokensCorrect[positionIndex] && !claimed.has(originalIndex)) {
+      const text = solutionTokens[originalIndex]
+      const pool = released.get(text) ?? []
+      pool.push(originalIndex)
+      released.set(text, pool)
+    }
+  })
+
+  released.forEach((pool) => pool.sort((a, b) => a - b))
+
+  return orderedIndices.map((originalIndex, positionIndex) => {
+    if (tokensCorrect[positionIndex]) {
+      return order[positionIndex]
+    }
+
+    if (!claimed.has(originalIndex)) {
+      return originalIndex
+    }
+
+    const pool = released.get(solutionTokens[originalIndex])
+    const replacement = pool?.shift()
+    if (replacement === undefined) {
+      throw new Error('Unable to reassign a duplicate token index while evaluating fragments.')
+    }
+
+    return replacement
+  })
+}
+
+function scoreOrder(
+  orderedIndices: readonly number[],
+  order: SolutionOrder,
+  solutionTokens: readonly string[],
+): boolean[] {
+  return orderedIndices.map(
+    (originalIndex, positionIndex) => solutionTokens[originalIndex] === solutionTokens[order[positionIndex]],
+  )
+}
+
+/**
+ * Picks the accepted order that agrees with the most judged positions. Locked
+ * tokens are always judged, even past `judgedLength`. Orders that
+ * would unlock an already locked token are only considered when no order
+ * keeps every locked token in place.
+ */
+function selectBestOrder(
+  orderedIndices: readonly number[],
+  lockedPositions: readonly boolean[],
+  orders: readonly SolutionOrder[],
+  solutionTokens: readonly string[],
+  judgedLength = orderedIndices.length,
+): { order: SolutionOrder; tokensCorrect: boolean[] } {
+  const scored = orders.map((order) => {
+    const tokensCorrect = scoreOrder(orderedIndices, order, solutionTokens).map(
+      (correct, positionIndex) => correct && (positionIndex < judgedLength || lockedPositions[positionIndex]),
+    )
+    const keepsLocks = lockedPositions.every((locked, positionIndex) => !locked || tokensCorrect[positionIndex])
+    const score = tokensCorrect.reduce((count, correct) => (correct ? count + 1 : count), 0)
+    return { order, tokensCorrect, keepsLocks, score }
+  })
+
+  const candidates = scored.some((entry) => entry.keepsLocks)
+    ? scored.filter((entry) => entry.keepsLocks)
+    : scored
+
+  return candidates.reduce((best, entry) => (entry.score > best.score ? entry : best))
+}
+
+export interface EvaluateOptions {
+  /**
+   * Number of leading line positions to judge, counting distractors on the
+   * line. Later positions (e.g. the unplaced bank in tap mode) stay unlocked
+   * and are never merged. Defaults to the whole line.
+   */
+  judgedLength?: number
+  /**
+   * Texts of distractor tokens on the board. Distractor indices follow the
+   * solution indices: index `solutionTokens.length + i` is distractor `i`.
+   */
+  distractors?: readonly string[]
+  /**
+   * Fragments the learner moved to the discard area.
+   */
+  discarded?: readonly TokenFragment[]
+}
+
+/**
+ * Locks every token that sits where an accepted order expects it and merges
+ * neighbouring tokens that are consecutive in that order. Distractors left
+ * on the line are skipped when judging positions and stay unlocked;
+ * distractors in the discard area are locked there, while solution tokens
+ * that were discarded by mistake are returned to the line, ahead of any
+ * locked tail.
+ */
 export function evaluateFragments(
   fragments: readonly TokenFragment[],
-  solutionLength: number,
+  solutionTokens: readonly string[],
+  acceptedOrders: readonly SolutionOrder[] = [createCanonicalOrder(solutionTokens.length)],
+  options: EvaluateOptions = {},
 ): EvaluationResult {
-  const totalTokens = fragments.reduce((sum, fragment) => sum + fragment.indices.length, 0)
+  const { distractors = [], discarded = [] } = options
+  const solutionLength = solutionTokens.length
+  const judgedLength = options.judgedLength ?? Number.POSITIVE_INFINITY
+  const isDistractor = (index: number) => index >= solutionLength
+  const totalTokens = [...fragments, ...discarded].reduce((sum, fragment) => sum + fragment.indices.length, 0)
 
-  if (totalTokens !== solutionLength) {
+  if (totalTokens !== solutionLength + distractors.length) {
     throw new Error('Token fragments do not match the expected solution length.')
   }
 
+  if (acceptedOrders.length === 0) {
+    throw new Error('At least one accepted solution order is required.')
+  }
+
+  const returned = discarded
+    .flatMap((fragment) => fragment.indices)
+    .filter((index) => !isDistractor(index))
+    .map((index) => ({ id: createFragmentId([index]), indices: [index], locked: false }))
+  const tailStart = findLockedTailStart(fragments)
+  const line = [...fragments.slice(0, tailStart), ...returned, ...fragments.slice(tailStart)]
+
   const seen = new Set<number>()
-  const orderedIndices: number[] = []
+  const rawIndices: number[] = []
+  const lockedPositions: boolean[] = []
+  let judgedCount = 0
 
-  fragments.forEach((fragment) => {
+  const entries: Array<{ index: number; distractor: boolean }> = []
+  line.forEach((fragment) => {
     fragment.indices.forEach((originalIndex) => {
       if (seen.has(originalIndex)) {
         throw new Error('Encountered duplicate token indices while evaluating fragments.')
       }
 
       seen.add(originalIndex)
-      orderedIndices.push(originalIndex)
+      const distractor = isDistractor(originalIndex)
+      if (!distractor) {
+        if (entries.length < judgedLength) {
+          judgedCount += 1
+        }
+
+        rawIndices.push(originalIndex)
+        lockedPositions.push(fragment.locked)
+      }
+
+      entries.push({ index: originalIndex, distractor })
     })
   })
 
-  const tokensCorrect = orderedIndices.map(
-    (originalIndex, positionIndex) => originalIndex === positionIndex,
+  const { order, tokensCorrect } = selectBestOrder(
+    rawIndices,
+    lockedPositions,
+    acceptedOrders,
+    solutionTokens,
+    judgedCount,
   )
   const lockedCount = tokensCorrect.reduce((count, correct) => (correct ? count + 1 : count), 0)
+  const orderedIndices = canonicalizeIndices(rawIndices, tokensCorrect, order, solutionTokens)
 
-  const groups: Array<{ indices: number[]; locked: boolean }> = []
+  const positionInOrder = new Map<number, number>()
+  order.forEach((originalIndex, positionIndex) => positionInOrder.set(originalIndex, positionIndex))
 
-  orderedIndices.forEach((originalIndex, positionIndex) => {
+  const groups: Array<{ indices: number[]; locked: boolean; distractor: boolean }> = []
+  let positionIndex = 0
+
+  entries.forEach((entry, linePosition) => {
+    if (entry.distractor) {
+      groups.push({ indices: [entry.index], locked: false, distractor: true })
+      return
+    }
+
+    const originalIndex = orderedIndices[positionIndex]
     const isLocked = tokensCorrect[positionIndex]
     const previousGroup = groups[groups.length - 1]
+    positionIndex += 1
 
     if (
       previousGroup &&
+      !previousGroup.distractor &&
+      (linePosition < judgedLength || isLocked) &&
       previousGroup.locked === isLocked &&
-      previousGroup.indices[previousGroup.indices.length - 1] + 1 === originalIndex
+      (positionInOrder.get(previousGroup.indices[previousGroup.indices.length - 1]) ?? -1) + 1 ===
+        positionInOrder.get(originalIndex)
     ) {
       previousGroup.indices.push(originalIndex)
       return
     }
 
-    groups.push({ indices: [originalIndex], locked: isLocked })
+    groups.push({ indices: [originalIndex], locked: isLocked, distractor: false })
   })
 
   const fragmentsResult: TokenFragment[] = groups.map(({ indices, locked }) => ({
@@ -68,13 +330,162 @@ export function evaluateFragments(
     locked,
   }))
 
+  const discardedResult: TokenFragment[] = discarded
+    .flatMap((fragment) => fragment.indices)
+    .filter(isDistractor)
+    .map((index) => ({ id: createFragmentId([index]), indices: [index], locked: true }))
+
   return {
     fragments: fragmentsResult,
+    discarded: discardedResult,
     lockedCount,
-    isSolved: lockedCount === solutionLength,
+    discardedCount: discardedResult.length,
+    returnedCount: returned.length,
+    isSolved: lockedCount === solutionLength && discardedResult.length === distractors.length,
   }
 }
 
+/**
+ * Index of the first fragment in the run of locked fragments that ends the
+ * line after an unlocked one, such as an anchored last token. Returns
+ * `fragments.length` when the line has no such tail.
+ */
+export function findLockedTailStart(fragments: readonly TokenFragment[]): number {
+  let start = fragments.length
+  while (start > 0 && fragments[start - 1].locked) {
+    start -= 1
+  }
+
+  return start === 0 ? fragments.length : start
+}
+
 export function getFragmentText(fragment: TokenFragment, solutionTokens: readonly string[]): string {
   return fragment.indices.map((index) => solutionTokens[index]).join(' ')
 }
+
+export interface HintTarget {
+  /**
+   * Flat position, not counting distractors, of the first token that is not
+   * locked yet.
+   */
+  position: number
+  /**
+   * Original index of an unlocked token that belongs at `position`.
+   */
+  index: number
+}
+
+function locateHint(
+  fragments: readonly TokenFragment[],
+  solutionTokens: readonly string[],
+  acceptedOrders: readonly SolutionOrder[],
+): { target: HintTarget; order: SolutionOrder } | null {
+  // Distractors are never part of a solution, so they are skipped entirely.
+  const isSolutionIndex = (index: number) => index < solutionTokens.length
+  const rawIndices = fragments.flatMap((fragment) => fragment.indices.filter(isSolutionIndex))
+  const lockedPositions = fragments.flatMap((fragment) =>
+    fragment.indices.filter(isSolutionIndex).map(() => fragment.locked),
+  )
+  const position = lockedPositions.indexOf(false)
+
+  if (position === -1 || acceptedOrders.length === 0) {
+    return null
+  }
+
+  const { order } = selectBestOrder(rawIndices, lockedPositions, acceptedOrders, solutionTokens)
+  const expected = order[position]
+  const unlocked = rawIndices.filter((_, positionIndex) => !lockedPositions[positionIndex])
+  const index = unlocked.includes(expected)
+    ? expected
+    : unlocked.find((candidate) => solutionTokens[candidate] === solutionTokens[expected])
+
+  return index === undefined ? null : { target: { position, index }, order }
+}
+
+/**
+ * Finds the token that belongs first in the unlocked region, judged against
+ * the accepted order that best fits the current arrangement while keeping
+ * every locked token in place. Returns null when nothing is left to place.
+ */
+export function findHintTarget(
+  fragments: readonly TokenFragment[],
+  solutionTokens: readonly string[],
+  acceptedOrders: readonly SolutionOrder[] = [createCanonicalOrder(solutionTokens.length)],
+): HintTarget | null {
+  return locateHint(fragments, solutionTokens, acceptedOrders)?.target ?? null
+}
+
+/**
+ * Moves the hint target into the first unlocked position and locks it,
+ * merging it with a neighbouring locked fragment when the two are
+ * consecutive in the accepted order, exactly as `evaluateFragments` would.
+ * Other unlocked tokens are left unjudged; the fragment the token was taken
+ * from is split around it.
+ */
+export function placeHintToken(
+  fragments: readonly TokenFragment[],
+  solutionTokens: readonly string[],
+  acceptedOrders: readonly SolutionOrder[] = [createCanonicalOrder(solutionTokens.length)],
+): TokenFragment[] {
+  const hint = locateHint(fragments, solutionTokens, acceptedOrders)
+  if (!hint) {
+    return [...fragments]
+  }
+
+  const { target, order } = hint
+  const positionInOrder = new Map<number, number>()
+  order.forEach((originalIndex, positionIndex) => positionInOrder.set(originalIndex, positionIndex))
+
+  const remaining: TokenFragment[] = fragments.flatMap((fragment) => {
+    const split = fragment.indices.indexOf(target.index)
+    if (split === -1) {
+      return [fragment]
+    }
+
+    return [fragment.indices.slice(0, split), fragment.indices.slice(split + 1)]
+      .filter((indices) => indices.length > 0)
+      .map((indices) => ({ id: createFragmentId(indices), indices, locked: false }))
+  })
+
+  const placed: TokenFragment = { id: createFragmentId([target.index]), indices: [target.index], locked: true }
+  // Every fragment before the first unlocked one is locked and left intact.
+  const insertAt = fragments.findIndex((fragment) => !fragment.locked)
+  const arranged = [...remaining.slice(0, insertAt), placed, ...remaining.slice(insertAt)]
+
+  const isConsecutive = (before: TokenFragment, after: TokenFragment) =>
+    (positionInOrder.get(before.indices[before.indices.length - 1]) ?? -1) + 1 ===
+    positionInOrder.get(after.indices[0])
+
+  return arranged.reduce<TokenFragment[]>((merged, fragment) => {
+    const previous = merged[merged.length - 1]
+    if (previous && previous.locked && fragment.locked && isConsecutive(previous, fragment)) {
+      const indices = [...previous.indices, ...fragment.indices]
+      merged[merged.length - 1] = { id: createFragmentId(indices), indices, locked: true }
+    } else {
+      merged.push(fragment)
+    }
+
+    return merged
+  }, [])
+}
+
+/**
+ * Lists the glosses of a fragment's tokens, e.g. "na → in the (fem.)", or
+ * returns null when none of its tokens has one.
+ */
+export function getFragmentGloss(
+  fragment: TokenFragment,
+  solutionTokens: readonly string[],
+  glosses: Readonly<Record<string, string>> | undefined,
+): string | null {
+  if (!glosses) {
+    return null
+  }
+
+  const entries = fragment.indices
+    .map((index) => solutionTokens[index])
+    .filter((token) => glosses[token] !== undefined)
+    .map((token) => `${token} → ${glosses[token]}`)
+
+  return entries.length > 0 ? entries.join(' · ') : null
+}
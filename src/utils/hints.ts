@@ -0,0 +1,31 @@
+/**
+ * Hints a stuck learner can ask for, from cheapest to most revealing. Each
+ * hint has a cost that is subtracted from the review grade of the solve, so
+ * a hinted solve is never scheduled like a clean one.
+ */
+export type HintKind = 'note' | 'highlight' | 'place'
+
+export const HINT_SEQUENCE: readonly HintKind[] = ['note', 'highlight', 'place']
+
+const HINT_COSTS: Record<HintKind, number> = {
+  note: 1,
+  highlight: 1,
+  place: 2,
+}
+
+/**
+ * Picks the next hint to offer. The note is revealed first; after that the
+ * next token is highlighted, and asking again while it is highlighted places
+ * it. Once a token has been placed, every further hint places another.
+ */
+export function getNextHint(hints: readonly HintKind[], highlightActive: boolean): HintKind {
+  if (!hints.includes('note')) {
+    return 'note'
+  }
+
+  return highlightActive || hints.includes('place') ? 'place' : 'highlight'
+}
+
+export function getHintPenalty(hints: readonly HintKind[]): number {
+  return hints.reduce((total, hint) => total + HINT_COSTS[hint], 0)
+}
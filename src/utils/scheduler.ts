@@ -0,0 +1,163 @@
+/**
+ * SM-2 style review scheduling. Each problem keeps its own ease factor,
+ * interval and due date; successful recalls stretch the interval while
+ * lapses send the problem back to daily review.
+ */
+
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5
+
+export interface ReviewLogEntry {
+  reviewedAt: number
+  grade: ReviewGrade
+  /**
+   * Interval in days that was scheduled as a result of this review.
+   */
+  interval: number
+}
+
+export interface ReviewRecord {
+  ease: number
+  /**
+   * Current interval in days.
+   */
+  interval: number
+  repetitions: number
+  /**
+   * Epoch milliseconds at which the problem becomes due again.
+   */
+  due: number
+  lapses: number
+  history: ReviewLogEntry[]
+}
+
+/**
+ * Review records keyed by problem id.
+ */
+export type ReviewStore = Record<string, ReviewRecord>
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+const INITIAL_EASE = 2.5
+const MINIMUM_EASE = 1.3
+const PASSING_GRADE = 3
+const MAX_HISTORY_ENTRIES = 50
+
+function getAttemptGrade(attempts: number): ReviewGrade {
+  if (attempts <= 1) {
+    return 5
+  }
+
+  if (attempts === 2) {
+    return 4
+  }
+
+  if (attempts === 3) {
+    return 3
+  }
+
+  return 2
+}
+
+/**
+ * Maps the number of Solve presses needed to finish a problem onto an SM-2
+ * grade. A first-try solve is perfect recall; needing four or more attempts
+ * counts as a lapse. `hintPenalty` lowers the grade by the cost of the hints
+ * used along the way.
+ */
+export function gradeFromAttempts(attempts: number, hintPenalty = 0): ReviewGrade {
+  return Math.max(0, getAttemptGrade(attempts) - hintPenalty) as ReviewGrade
+}
+
+export function reviewProblem(
+  record: ReviewRecord | undefined,
+  grade: ReviewGrade,
+  now: number,
+): ReviewRecord {
+  const previous: ReviewRecord = record ?? {
+    ease: INITIAL_EASE,
+    interval: 0,
+    repetitions: 0,
+    due: now,
+    lapses: 0,
+    history: [],
+  }
+
+  const passed = grade >= PASSING_GRADE
+  const ease = Math.max(
+    MINIMUM_EASE,
+    previous.ease + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02),
+  )
+
+  let interval: number
+  let repetitions: number
+
+  if (!passed) {
+    interval = 1
+    repetitions = 0
+  } else if (previous.repetitions === 0) {
+    interval = 1
+    repetitions = 1
+  } else if (previous.repetitions === 1) {
+    interval = 6
+    repetitions = 2
+  } else {
+    interval = Math.round(previous.interval * ease)
+    repetitions = previous.repetitions + 1
+  }
+
+  const history = [...previous.history, { reviewedAt: now, grade, interval }].slice(-MAX_HISTORY_ENTRIES)
+
+  return {
+    ease,
+    interval,
+    repetitions,
+    due: now + interval * DAY_IN_MS,
+    lapses: passed ? previous.lapses : previous.lapses + 1,
+    history,
+  }
+}
+
+function getLastReview(record: ReviewRecord): number {
+  return record.history[record.history.length - 1]?.reviewedAt ?? 0
+}
+
+/**
+ * Combines two copies of the review store written concurrently, keeping the
+ * more recently reviewed record of each problem. Ties go to `incoming`.
+ */
+export function mergeReviews(current: ReviewStore, incoming: ReviewStore): ReviewStore {
+  const merged = { ...current }
+  Object.entries(incoming).forEach(([id, record]) => {
+    if (!merged[id] || getLastReview(record) >= getLastReview(merged[id])) {
+      merged[id] = record
+    }
+  })
+
+  return merged
+}
+
+export function isDue(record: ReviewRecord | undefined, now: number): boolean {
+  return !record || record.due <= now
+}
+
+/**
+ * Builds the review queue for a session. Overdue problems come first, most
+ * overdue first, followed by problems that have never been reviewed in their
+ * original order. When nothing is due the whole set is returned ordered by
+ * the soonest due date so learners can practise ahead.
+ */
+export function planReviewQueue(ids: readonly string[], store: ReviewStore, now: number): string[] {
+  const byDueDate = (a: string, b: string) => store[a].due - store[b].due
+
+  const due = ids.filter((id) => store[id] && isDue(store[id], now)).sort(byDueDate)
+  const unseen = ids.filter((id) => !store[id])
+
+  if (due.length > 0 || unseen.length > 0) {
+    return [...due, ...unseen]
+  }
+
+  return [...ids].sort(byDueDate)
+}
+
+export function getDaysUntilDue(record: ReviewRecord, now: number): number {
+  return Math.max(0, Math.ceil((record.due - now) / DAY_IN_MS))
+}
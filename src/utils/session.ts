@@ -0,0 +1,525 @@
+import { getProblemFingerprint, getProblemId } from '../data/problems'
+import type { Problem, TokenFragment } from '../types'
+import {
+  createDistractors,
+  DEFAULT_DIFFICULTY,
+  getAnchorIndices,
+  getChunks,
+  type Difficulty,
+} from './difficulty'
+import { createFragmentId, findLockedTailStart, getAcceptedOrders } from './evaluate'
+import type { HintKind } from './hints'
+import { planReviewQueue, type ReviewStore } from './scheduler'
+import { shuffle } from './shuffle'
+import { matchesTags } from './tags'
+
+/**
+ * A saved arrangement for undo and redo.
+ */
+export interface ArrangementSnapshot {
+  fragments: TokenFragment[]
+  placedTokens: number
+  discarded: TokenFragment[]
+}
+
+export interface ProblemProgress {
+  /**
+   * Fingerprint of the problem content the fragments were built from. A
+   * mismatch means the problem was edited and its progress must be reset.
+   */
+  fingerprint: string
+  fragments: TokenFragment[]
+  solved: boolean
+  /**
+   * Number of Solve presses made on this problem during the session.
+   */
+  attempts: number
+  /**
+   * Epoch milliseconds at which the problem was first shown, used to measure
+   * time-to-solve.
+   */
+  startedAt: number | null
+  /**
+   * Hints used on this problem, in the order they were requested.
+   */
+  hints: HintKind[]
+  /**
+   * Original index of the token highlighted by a hint, cleared by the next
+   * Solve press.
+   */
+  highlightedIndex: number | null
+  /**
+   * Number of leading tokens moved onto the answer line in tap-to-place
+   * mode; the remaining fragments form the bank.
+   */
+  placedTokens: number
+  /**
+   * Distractor texts dealt onto the board. Their fragment indices follow the
+   * problem's tokens, see `getBoardTokens`.
+   */
+  distractors: string[]
+  /**
+   * Fragments moved to the discard area.
+   */
+  discarded: TokenFragment[]
+  /**
+   * Earlier arrangements, oldest first, restored by undo.
+   */
+  past: ArrangementSnapshot[]
+  /**
+   * Arrangements that were undone, most recently undone last.
+   */
+  future: ArrangementSnapshot[]
+}
+
+export interface SessionState {
+  current: string | null
+  queue: string[]
+  /**
+   * Problems picked by the scheduler for this session, in review order.
+   */
+  scheduled: string[]
+  /**
+   * Progress keyed by problem id.
+   */
+  progress: Record<string, ProblemProgress>
+  /**
+   * Seed used to shuffle the tokens of problems as they join the session.
+   */
+  seed: string
+  /**
+   * Tags the session was filtered by. Empty, or missing in sessions saved
+   * before filtering existed, means every problem is practised.
+   */
+  tags?: string[]
+  /**
+   * Difficulty the session's boards were dealt at; missing in sessions saved
+   * before difficulty levels existed, which were dealt at normal.
+   */
+  difficulty?: Difficulty
+}
+
+export interface SessionOptions {
+  tags?: readonly string[]
+  difficulty?: Difficulty
+}
+
+/**
+ * Deals the shuffled board for a problem. On easy the anchored first and last
+ * tokens are locked at the ends and the rest is dealt in chunks; distractors
+ * are shuffled in with the solution tokens.
+ */
+export function createInitialFragments(
+  problem: Problem,
+  seed: string,
+  difficulty: Difficulty = DEFAULT_DIFFICULTY,
+  distractors: readonly string[] = [],
+): TokenFragment[] {
+  const orders = difficulty === 'easy' ? getAcceptedOrders(problem) : []
+  const anchors = getAnchorIndices(problem, orders)
+  const groups =
+    difficulty === 'easy' ? getChunks(problem, orders, anchors) : problem.tokens.map((_, index) => [index])
+  const distractorGroups = distractors.map((_, offset) => [problem.tokens.length + offset])
+
+  const shuffled = shuffle([...groups, ...distractorGroups], seed).map((indices) => ({
+    id: createFragmentId(indices),
+    indices: [...indices],
+    locked: false,
+  }))
+  const createAnchor = (index: number) => ({ id: createFragmentId([index]), indices: [index], locked: true })
+  const first = orders[0]?.[0]
+  const last = orders[0]?.[problem.tokens.length - 1]
+
+  return [
+    ...anchors.filter((index) => index === first).map(createAnchor),
+    ...shuffled,
+    ...anchors.filter((index) => index === last && index !== first).map(createAnchor),
+  ]
+}
+
+function createProgress(problem: Problem, seed: string, difficulty: Difficulty): ProblemProgress {
+  const id = getProblemId(problem)
+  const distractors = createDistractors(problem, difficulty, `${seed}-${id}-distractors`)
+
+  return {
+    fingerprint: getProblemFingerprint(problem),
+    fragments: createInitialFragments(problem, `${seed}-${id}`, difficulty, distractors),
+    solved: false,
+    attempts: 0,
+    startedAt: null,
+    hints: [],
+    highlightedIndex: null,
+    placedTokens: 0,
+    distractors,
+    discarded: [],
+    past: [],
+    future: [],
+  }
+}
+
+function hasCurrentShape(entry: ProblemProgress): boolean {
+  return (
+    Array.isArray(entry.hints) &&
+    typeof entry.placedTokens === 'number' &&
+    Array.isArray(entry.distractors) &&
+    Array.isArray(entry.discarded) &&
+    Array.isArray(entry.past) &&
+    Array.isArray(entry.future)
+  )
+}
+
+function upgradeSnapshot(snapshot: ArrangementSnapshot): ArrangementSnapshot {
+  return { ...snapshot, discarded: snapshot.discarded ?? [] }
+}
+
+/**
+ * Fills in fields added after the progress entry was saved.
+ */
+function upgradeProgress(entry: ProblemProgress): ProblemProgress {
+  const saved: Partial<ProblemProgress> = entry
+  const hasSnapshots = typeof saved.placedTokens === 'number'
+
+  return {
+    ...entry,
+    hints: saved.hints ?? [],
+    highlightedIndex: saved.highlightedIndex ?? null,
+    placedTokens: saved.placedTokens ?? 0,
+    distractors: saved.distractors ?? [],
+    discarded: saved.discarded ?? [],
+    // Undo history saved before snapshots carried the answer line is dropped.
+    past: hasSnapshots ? (saved.past ?? []).map(upgradeSnapshot) : [],
+    future: hasSnapshots ? (saved.future ?? []).map(upgradeSnapshot) : [],
+  }
+}
+
+/**
+ * Builds a session over the problems matching `tags`, dealt at `difficulty`.
+ * Progress is still tracked for the whole set so that reconciling against the
+ * full problem list keeps working; only the review queue is filtered.
+ */
+export function createSession(
+  problems: readonly Problem[],
+  seed: string,
+  reviews: ReviewStore,
+  now: number,
+  { tags = [], difficulty = DEFAULT_DIFFICULTY }: SessionOptions = {},
+): SessionState {
+  const progress: Record<string, ProblemProgress> = {}
+  problems.forEach((problem) => {
+    progress[getProblemId(problem)] = createProgress(problem, seed, difficulty)
+  })
+
+  const included = problems.filter((problem) => matchesTags(problem, tags)).map(getProblemId)
+  const scheduled = planReviewQueue(included, reviews, now)
+  const [current = null, ...queue] = scheduled
+
+  return { current, queue, scheduled, progress, seed, tags: [...tags], difficulty }
+}
+
+export function createSessionSeed(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+export function createRandomizedSession(
+  problems: readonly Problem[],
+  reviews: ReviewStore,
+  options: SessionOptions = {},
+): SessionState {
+  return createSession(problems, createSessionSeed(), reviews, Date.now(), options)
+}
+
+/**
+ * Session saved before problems had ids: progress is a list in problem-set
+ * order and the queue holds indices into it.
+ */
+export interface LegacySessionState {
+  current: number | null
+  queue: number[]
+  progress: Array<{ fragments: TokenFragment[]; solved: boolean }>
+}
+
+function isBoardFor(fragments: readonly TokenFragment[], problem: Problem): boolean {
+  const indices = fragments.flatMap((fragment) => fragment.indices).sort((left, right) => left - right)
+  return indices.length === problem.tokens.length && indices.every((index, position) => index === position)
+}
+
+/**
+ * Carries a legacy session over to per-problem progress. Entries are matched
+ * to `problems` by position; an entry whose fragments do not cover exactly
+ * that problem's tokens is dropped and the problem starts fresh. Solved
+ * problems leave the queue, and the legacy current problem stays current.
+ */
+export function migrateLegacySession(
+  legacy: LegacySessionState,
+  problems: readonly Problem[],
+  seed: string,
+  reviews: ReviewStore,
+  now: number,
+): SessionState {
+  const session = createSession(problems, seed, reviews, now)
+  const ids = problems.map(getProblemId)
+  const progress = { ...session.progress }
+
+  problems.forEach((problem, index) => {
+    const entry = legacy.progress[index]
+    if (entry && isBoardFor(entry.fragments, problem)) {
+      // Legacy boards were dealt without distractors.
+      const { fragments, solved } = entry
+      progress[ids[index]] = { ...progress[ids[index]], fragments, solved, distractors: [] }
+    }
+  })
+
+  const isOpen = (id: string | undefined): id is string =>
+    id !== undefined && session.scheduled.includes(id) && !progress[id].solved
+  const legacyCurrent = legacy.current !== null ? ids[legacy.current] : undefined
+  const ordered = [legacyCurrent, ...legacy.queue.map((index) => ids[index]), ...session.scheduled]
+  const open = Array.from(new Set(ordered)).filter(isOpen)
+  const [current = session.scheduled[session.scheduled.length - 1] ?? null, ...queue] = open
+
+  return { ...session, current, queue, progress }
+}
+
+/**
+ * Migrates a persisted session onto the current problem set one problem at a
+ * time. Unchanged problems keep their fragments and solved status, edited
+ * problems are reset and queued again, removed problems are dropped and new
+ * problems matching the session's tags are appended to the queue. Returns the
+ * original session object when nothing needed to change.
+ */
+export function reconcileSession(session: SessionState, problems: readonly Problem[]): SessionState {
+  const ids = problems.map(getProblemId)
+  const known = new Set(ids)
+  let changed = Object.keys(session.progress).some((id) => !known.has(id))
+
+  const progress: Record<string, ProblemProgress> = {}
+  const reset: string[] = []
+  const added: string[] = []
+
+  problems.forEach((problem, index) => {
+    const id = ids[index]
+    const existing = session.progress[id]
+
+    if (existing && existing.fingerprint === getProblemFingerprint(problem)) {
+      if (hasCurrentShape(existing)) {
+        progress[id] = existing
+        return
+      }
+
+      changed = true
+      progress[id] = upgradeProgress(existing)
+      return
+    }
+
+    changed = true
+    progress[id] = createProgress(problem, session.seed, session.difficulty ?? DEFAULT_DIFFICULTY)
+    if (existing) {
+      reset.push(id)
+    } else if (matchesTags(problem, session.tags ?? [])) {
+      added.push(id)
+    }
+  })
+
+  if (!changed) {
+    return session
+  }
+
+  const scheduled = [...session.scheduled.filter((id) => known.has(id)), ...added]
+  const requeued = reset.filter(
+    (id) => scheduled.includes(id) && id !== session.current && !session.queue.includes(id),
+  )
+  const queue = [...session.queue.filter((id) => known.has(id)), ...requeued, ...added]
+
+  let current = session.current != null && known.has(session.current) ? session.current : null
+  if (current === null) {
+    current = queue.length > 0 ? queue.shift() ?? null : scheduled[scheduled.length - 1] ?? null
+  }
+
+  return { ...session, current, queue, scheduled, progress }
+}
+
+/**
+ * Picks between two copies of one problem's progress. Whichever has made more
+ * headway wins: solved over unsolved, then more Solve presses, then more
+ * hints. Otherwise `incoming` wins, carrying its token order.
+ */
+function pickProgress(current: ProblemProgress, incoming: ProblemProgress): ProblemProgress {
+  if (current.fingerprint !== incoming.fingerprint) {
+    return incoming
+  }
+
+  if (current.solved !== incoming.solved) {
+    return current.solved ? current : incoming
+  }
+
+  if (current.attempts !== incoming.attempts) {
+    return current.attempts > incoming.attempts ? current : incoming
+  }
+
+  return current.hints.length > incoming.hints.length ? current : incoming
+}
+
+/**
+ * Combines two copies of a session written concurrently, e.g. by the
+ * installed app and a browser tab. Progress is merged problem by problem so
+ * that a solve made in one copy is never rolled back by the other; the
+ * current problem and queue come from `incoming`, without the problems
+ * solved in either copy. Sessions with different seeds were started
+ * separately and are not combined: `incoming` replaces the other.
+ */
+export function mergeSessions(current: SessionState | null, incoming: SessionState | null): SessionState | null {
+  if (!current || !incoming || current === incoming || current.seed !== incoming.seed) {
+    return incoming ?? current
+  }
+
+  const progress: Record<string, ProblemProgress> = { ...incoming.progress }
+  Object.entries(current.progress).forEach(([id, entry]) => {
+    const other = incoming.progress[id]
+    progress[id] = other ? pickProgress(entry, other) : entry
+  })
+
+  const queue = incoming.queue.filter((id) => !progress[id]?.solved)
+  return { ...incoming, queue, progress }
+}
+
+export function updateProgress(
+  session: SessionState,
+  id: string,
+  update: (entry: ProblemProgress) => ProblemProgress,
+): SessionState {
+  const entry = session.progress[id]
+  if (!entry) {
+    return session
+  }
+
+  return { ...session, progress: { ...session.progress, [id]: update(entry) } }
+}
+
+const MAX_UNDO_STEPS = 30
+
+function takeSnapshot(entry: ProblemProgress): ArrangementSnapshot {
+  return { fragments: entry.fragments, placedTokens: entry.placedTokens, discarded: entry.discarded }
+}
+
+/**
+ * Replaces the arrangement and records the previous one for undo. Any redo
+ * history is discarded, as in a text editor.
+ */
+export function commitFragments(
+  entry: ProblemProgress,
+  fragments: TokenFragment[],
+  placedTokens = entry.placedTokens,
+  discarded = entry.discarded,
+): ProblemProgress {
+  return {
+    ...entry,
+    fragments,
+    placedTokens,
+    discarded,
+    past: [...entry.past, takeSnapshot(entry)].slice(-MAX_UNDO_STEPS),
+    future: [],
+  }
+}
+
+export function canUndo(entry: ProblemProgress): boolean {
+  return !entry.solved && entry.past.length > 0
+}
+
+export function canRedo(entry: ProblemProgress): boolean {
+  return !entry.solved && entry.future.length > 0
+}
+
+export function undoFragments(entry: ProblemProgress): ProblemProgress {
+  if (!canUndo(entry)) {
+    return entry
+  }
+
+  return {
+    ...entry,
+    ...entry.past[entry.past.length - 1],
+    past: entry.past.slice(0, -1),
+    future: [...entry.future, takeSnapshot(entry)],
+  }
+}
+
+export function redoFragments(entry: ProblemProgress): ProblemProgress {
+  if (!canRedo(entry)) {
+    return entry
+  }
+
+  return {
+    ...entry,
+    ...entry.future[entry.future.length - 1],
+    past: [...entry.past, takeSnapshot(entry)],
+    future: entry.future.slice(0, -1),
+  }
+}
+
+/**
+ * Length of the answer line in tap-to-place mode. Locked tokens always sit on
+ * the answer line, which matters when an arrangement built by dragging is
+ * shown in tap mode. A locked tail, such as an anchored last token, is not
+ * counted: it is shown at the end of the answer line, after the bank's
+ * place in the fragment list.
+ */
+export function getPlacedLength(entry: ProblemProgress): number {
+  let length = 0
+  let lockedEnd = 0
+  entry.fragments.slice(0, findLockedTailStart(entry.fragments)).forEach((fragment) => {
+    length += fragment.indices.length
+    if (fragment.locked) {
+      lockedEnd = length
+    }
+  })
+
+  return Math.min(length, Math.max(entry.placedTokens, lockedEnd))
+}
+
+/**
+ * Tokens the board's fragment indices refer to: the problem's tokens followed
+ * by the distractors dealt for it.
+ */
+export function getBoardTokens(problem: Problem, entry: ProblemProgress): string[] {
+  return [...problem.tokens, ...entry.distractors]
+}
+
+/**
+ * Moves an unlocked fragment from the line to the discard area.
+ */
+export function discardFragment(entry: ProblemProgress, id: string): ProblemProgress {
+  const position = entry.fragments.findIndex((fragment) => fragment.id === id)
+  const fragment = entry.fragments[position]
+  if (!fragment || fragment.locked) {
+    return entry
+  }
+
+  // Discarding from the tap-mode answer line shortens it.
+  const before = entry.fragments.slice(0, position).reduce((total, { indices }) => total + indices.length, 0)
+  const fromLine = before < getPlacedLength(entry)
+  const placedTokens = fromLine ? Math.max(0, entry.placedTokens - fragment.indices.length) : entry.placedTokens
+
+  return commitFragments(
+    entry,
+    entry.fragments.filter((candidate) => candidate.id !== id),
+    placedTokens,
+    [...entry.discarded, fragment],
+  )
+}
+
+/**
+ * Returns an unlocked fragment from the discard area to the end of the line,
+ * ahead of any locked tail.
+ */
+export function restoreFragment(entry: ProblemProgress, id: string): ProblemProgress {
+  const fragment = entry.discarded.find((candidate) => candidate.id === id)
+  if (!fragment || fragment.locked) {
+    return entry
+  }
+
+  const tailStart = findLockedTailStart(entry.fragments)
+  return commitFragments(
+    entry,
+    [...entry.fragments.slice(0, tailStart), fragment, ...entry.fragments.slice(tailStart)],
+    entry.placedTokens,
+    entry.discarded.filter((candidate) => candidate.id !== id),
+  )
+}
@@ -0,0 +1,56 @@
+import type { Problem } from '../types'
+
+/**
+ * Grammar tags are lower-case identifiers such as `reflexive` or
+ * `contraction:em`. The part before a colon names a family, so selecting
+ * `contraction` matches every `contraction:*` tag.
+ */
+export interface TagCount {
+  tag: string
+  count: number
+}
+
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase().replace(/\s+/g, '-')
+}
+
+export function matchesTag(tag: string, selected: string): boolean {
+  return tag === selected || tag.startsWith(`${selected}:`)
+}
+
+/**
+ * A problem matches when it carries any of the selected tags. An empty
+ * selection matches every problem.
+ */
+export function matchesTags(problem: Problem, selected: readonly string[]): boolean {
+  if (selected.length === 0) {
+    return true
+  }
+
+  const tags = problem.tags ?? []
+  return selected.some((entry) => tags.some((tag) => matchesTag(tag, entry)))
+}
+
+/**
+ * Counts the problems per tag, including a family entry (e.g. `contraction`)
+ * for every namespaced tag. Sorted alphabetically so families come right
+ * before their members.
+ */
+export function collectTags(problems: readonly Problem[]): TagCount[] {
+  const counts = new Map<string, number>()
+
+  problems.forEach((problem) => {
+    const tags = new Set<string>()
+    problem.tags?.forEach((tag) => {
+      tags.add(tag)
+      const separator = tag.indexOf(':')
+      if (separator > 0) {
+        tags.add(tag.slice(0, separator))
+      }
+    })
+
+    tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  })
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort((a, b) => a.tag.localeCompare(b.tag))
+}
@@ -0,0 +1,7 @@
+import type { ThemePreference } from '../types'
+
+export const THEME_PREFERENCES: readonly ThemePreference[] = ['system', 'light', 'dark', 'high-contrast']
+
+export function isThemePreference(value: unknown): value is ThemePreference {
+  return typeof value === 'string' && (THEME_PREFERENCES as readonly string[]).includes(value)
+}
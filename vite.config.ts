@@ -1,7 +1,8 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { serviceWorker } from './build/service-worker-plugin'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker('src/service-worker.js')],
   base: './',
 })